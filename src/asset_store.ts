@@ -0,0 +1,127 @@
+import crypto from 'crypto';
+import fs from 'fs/promises';
+import path from 'path';
+import sharp from 'sharp';
+
+const ASSET_ID_PATTERN = /^[a-f0-9]{64}$/;
+
+// Content-addressed store for generated images. Every image is normalized to
+// PNG and saved as <sha256>.png, so identical images are only stored once.
+export class AssetStore {
+  private readonly assetDir: string;
+
+  constructor(assetDir: string) {
+    this.assetDir = assetDir;
+  }
+
+  // Store an image and return its asset id
+  async putImage(data: Buffer): Promise<string> {
+    const png = await sharp(data).png().toBuffer();
+    const assetId = crypto.createHash('sha256').update(png).digest('hex');
+    const filePath = this.filePath(assetId);
+
+    try {
+      await fs.access(filePath);
+    } catch {
+      await fs.mkdir(this.assetDir, { recursive: true });
+      const tempPath = `${filePath}.${crypto.randomUUID()}.tmp`;
+      await fs.writeFile(tempPath, png);
+      await fs.rename(tempPath, filePath);
+    }
+
+    return assetId;
+  }
+
+  async getImage(assetId: string): Promise<Buffer | undefined> {
+    try {
+      return await fs.readFile(this.filePath(assetId));
+    } catch {
+      return undefined;
+    }
+  }
+
+  // Absolute path of a stored image, or undefined if it does not exist
+  async resolvePath(assetId: string): Promise<string | undefined> {
+    try {
+      const filePath = this.filePath(assetId);
+      await fs.access(filePath);
+      return path.resolve(filePath);
+    } catch {
+      return undefined;
+    }
+  }
+
+  // Delete assets that no comic references anymore. Assets newer than
+  // minAgeMs are kept, since they may belong to a comic still being generated.
+  async deleteUnreferenced(
+    referencedIds: Set<string>,
+    minAgeMs: number
+  ): Promise<number> {
+    let files: string[];
+    try {
+      files = await fs.readdir(this.assetDir);
+    } catch {
+      return 0;
+    }
+
+    let deletedCount = 0;
+    for (const file of files) {
+      const assetId = path.basename(file, '.png');
+      if (!file.endsWith('.png') || referencedIds.has(assetId)) {
+        continue;
+      }
+
+      const filePath = path.join(this.assetDir, file);
+      const { mtimeMs } = await fs.stat(filePath);
+      if (Date.now() - mtimeMs >= minAgeMs) {
+        await fs.rm(filePath, { force: true });
+        deletedCount++;
+      }
+    }
+
+    return deletedCount;
+  }
+
+  private filePath(assetId: string): string {
+    if (!ASSET_ID_PATTERN.test(assetId)) {
+      throw new Error(`Invalid asset id: ${assetId}`);
+    }
+    return path.join(this.assetDir, `${assetId}.png`);
+  }
+}
+
+// Stable URLs under which stored comic images are served
+export function panelImageUrl(requestId: string, panelNumber: number): string {
+  return `/api/comics/${requestId}/panels/${panelNumber}.png`;
+}
+
+export function panelVersionImageUrl(
+  requestId: string,
+  panelNumber: number,
+  version: number
+): string {
+  return `/api/comics/${requestId}/panels/${panelNumber}/versions/${version}.png`;
+}
+
+export function panelCandidateImageUrl(
+  requestId: string,
+  panelNumber: number,
+  candidate: number
+): string {
+  return `/api/comics/${requestId}/panels/${panelNumber}/candidates/${candidate}.png`;
+}
+
+export function pageImageUrl(requestId: string): string {
+  return `/api/comics/${requestId}/page.png`;
+}
+
+export function translatedPageImageUrl(
+  requestId: string,
+  language: string
+): string {
+  return `/api/comics/${requestId}/translations/${language}/page.png`;
+}
+
+export function characterReferenceImageUrl(characterId: string): string {
+  return `/api/characters/${characterId}/reference.png`;
+}
@@ -0,0 +1,89 @@
+import crypto from 'crypto';
+import express from 'express';
+
+// Owner of everything created while authentication is disabled
+export const ANONYMOUS_USER_ID = 'anonymous';
+
+// Look up API keys by their hash, so the keys themselves are never compared
+// character by character
+function hashApiKey(apiKey: string): string {
+  return crypto.createHash('sha256').update(apiKey).digest('hex');
+}
+
+// Parse COMIC_API_KEYS-style configuration: comma-separated "userId:apiKey"
+// pairs. A user may have several keys.
+export function parseApiKeys(config: string | undefined): Map<string, string> {
+  const usersByKeyHash = new Map<string, string>();
+
+  for (const entry of (config ?? '').split(',')) {
+    const trimmed = entry.trim();
+    if (!trimmed) {
+      continue;
+    }
+
+    const separator = trimmed.indexOf(':');
+    const userId = trimmed.slice(0, separator).trim();
+    const apiKey = trimmed.slice(separator + 1).trim();
+    if (separator <= 0 || !userId || !apiKey) {
+      throw new Error(
+        `Invalid API key entry "${trimmed}": expected "userId:apiKey"`
+      );
+    }
+
+    usersByKeyHash.set(hashApiKey(apiKey), userId);
+  }
+
+  return usersByKeyHash;
+}
+
+// The key sent with a request: "Authorization: Bearer <key>", an "X-API-Key"
+// header, or an "apiKey" query parameter for clients that cannot set headers
+// (EventSource, download links)
+function readApiKey(req: express.Request): string | undefined {
+  const authorization = req.header('authorization');
+  if (authorization?.toLowerCase().startsWith('bearer ')) {
+    return authorization.slice('bearer '.length).trim();
+  }
+
+  const header = req.header('x-api-key');
+  if (header) {
+    return header.trim();
+  }
+
+  return typeof req.query.apiKey === 'string' ? req.query.apiKey : undefined;
+}
+
+// Authenticate API requests and record the caller as res.locals.userId.
+// Without any configured keys every caller is the anonymous user.
+export function authenticate(
+  usersByKeyHash: Map<string, string>
+): express.RequestHandler {
+  return (req, res, next) => {
+    if (usersByKeyHash.size === 0) {
+      res.locals.userId = ANONYMOUS_USER_ID;
+      return next();
+    }
+
+    const apiKey = readApiKey(req);
+    const userId = apiKey ? usersByKeyHash.get(hashApiKey(apiKey)) : undefined;
+
+    if (!userId) {
+      res.setHeader('WWW-Authenticate', 'Bearer');
+      return res.status(401).json({ error: 'A valid API key is required' });
+    }
+
+    res.locals.userId = userId;
+    return next();
+  };
+}
+
+// The authenticated caller of a request
+export function getUserId(res: express.Response): string {
+  return res.locals.userId ?? ANONYMOUS_USER_ID;
+}
+
+// Owner of a stored record; records from before ownership belong to the
+// anonymous user
+export function ownerOf(record: { ownerId?: string }): string {
+  return record.ownerId ?? ANONYMOUS_USER_ID;
+}
@@ -0,0 +1,106 @@
+import crypto from 'crypto';
+import fs from 'fs/promises';
+import path from 'path';
+
+// A recurring character from the character bible
+export interface SavedCharacter {
+  id: string;
+  ownerId?: string; // User whose character bible it belongs to
+  name: string;
+  appearance: string; // Canonical appearance, repeated in every panel prompt
+  personality?: string;
+  referenceImageAssetId?: string; // Stored in the asset store
+  seed?: number; // Fixed image seed, for providers that support one
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Storage for saved characters
+export interface CharacterRepository {
+  init(): Promise<void>;
+  save(character: SavedCharacter): Promise<void>;
+  get(id: string): Promise<SavedCharacter | undefined>;
+  list(): Promise<SavedCharacter[]>;
+  delete(id: string): Promise<boolean>;
+}
+
+export interface JsonFileCharacterRepositoryOptions {
+  dataDir: string;
+}
+
+// Stores each character as its own JSON file under <dataDir>/characters
+export class JsonFileCharacterRepository implements CharacterRepository {
+  private readonly charactersDir: string;
+  private readonly records = new Map<string, SavedCharacter>();
+
+  constructor(options: JsonFileCharacterRepositoryOptions) {
+    this.charactersDir = path.join(options.dataDir, 'characters');
+  }
+
+  async init(): Promise<void> {
+    await fs.mkdir(this.charactersDir, { recursive: true });
+
+    const files = await fs.readdir(this.charactersDir);
+    for (const file of files.filter((f) => f.endsWith('.json'))) {
+      try {
+        const raw = await fs.readFile(
+          path.join(this.charactersDir, file),
+          'utf8'
+        );
+        const character = deserializeCharacter(raw);
+        this.records.set(character.id, character);
+      } catch (error) {
+        console.error(`❌ Failed to load saved character ${file}:`, error);
+      }
+    }
+
+    console.log(
+      `💾 Loaded ${this.records.size} saved character(s) from ${this.charactersDir}`
+    );
+  }
+
+  async save(character: SavedCharacter): Promise<void> {
+    this.records.set(character.id, character);
+
+    // Write to a temporary file first so a crash never leaves a partial record
+    const filePath = this.filePath(character.id);
+    const tempPath = `${filePath}.${crypto.randomUUID()}.tmp`;
+    await fs.writeFile(tempPath, JSON.stringify(character), 'utf8');
+    await fs.rename(tempPath, filePath);
+  }
+
+  async get(id: string): Promise<SavedCharacter | undefined> {
+    return this.records.get(id);
+  }
+
+  async list(): Promise<SavedCharacter[]> {
+    return Array.from(this.records.values()).sort((a, b) =>
+      a.name.localeCompare(b.name)
+    );
+  }
+
+  async delete(id: string): Promise<boolean> {
+    if (!this.records.delete(id)) {
+      return false;
+    }
+
+    await fs.rm(this.filePath(id), { force: true });
+    return true;
+  }
+
+  private filePath(id: string): string {
+    return path.join(this.charactersDir, `${id}.json`);
+  }
+}
+
+function deserializeCharacter(raw: string): SavedCharacter {
+  const parsed = JSON.parse(raw);
+  if (!parsed || typeof parsed.id !== 'string') {
+    throw new Error('Invalid character record: missing id');
+  }
+  return {
+    ...parsed,
+    createdAt: new Date(parsed.createdAt),
+    updatedAt: new Date(parsed.updatedAt),
+  };
+}
@@ -0,0 +1,328 @@
+import 'dotenv/config';
+import fs from 'fs/promises';
+import path from 'path';
+import { parseArgs } from 'util';
+import { stopInworldRuntime } from '@inworld/runtime';
+import { AssetStore } from './asset_store';
+import {
+  getRenderGraphs,
+  runComicGraph,
+  writeComicScript,
+} from './comic_graphs';
+import { ComicImageOutput, ComicImagePanel } from './comic_image_node';
+import { ComicManifestRow, readComicManifest } from './comic_manifest';
+import { ComicRequest } from './comic_repository';
+import {
+  COMIC_EXPORT_FORMATS,
+  ComicExportFormat,
+  exportComic,
+  isComicExportFormat,
+} from './comic_export';
+import { ConcurrencyLimiter } from './concurrency';
+import { describeError } from './comic_events';
+import {
+  createImageProvider,
+  getConfiguredImageProviderName,
+} from './image_provider';
+import { getConfiguredModerators } from './content_moderator';
+import { loadModelsConfig } from './generation_options';
+
+// Command-line batch generator: makes every comic in a JSON or CSV manifest
+// with the same graphs as the server, without going through the HTTP API.
+//
+//   npm run batch -- manifest.csv --out ./batch-output --concurrency 2
+//
+// Each comic is written to <out>/<id>/. Comics that already have a
+// comic.json are skipped, so rerunning a batch retries only the failures.
+
+const USAGE = `Usage: npm run batch -- <manifest.json|manifest.csv> [options]
+
+Options:
+  --out <dir>          Output directory (default: ./batch-output)
+  --concurrency <n>    Comics generated at the same time (default: 2)
+  --export <format>    Also export each comic as ${COMIC_EXPORT_FORMATS.join(', ')}
+  --fresh              Do not reuse scripts or images cached during the run
+  --help               Show this help`;
+
+interface BatchOptions {
+  manifestPath: string;
+  outDir: string;
+  concurrency: number;
+  exportFormat?: ComicExportFormat;
+  fresh: boolean;
+}
+
+// Written to <out>/summary.json at the end of every run
+interface BatchSummary {
+  manifest: string;
+  startedAt: string;
+  finishedAt: string;
+  total: number;
+  completed: number;
+  skipped: number; // Already generated by an earlier run
+  failed: number;
+  failures: Array<{ id: string; row: number; error: string }>;
+}
+
+const COMIC_FILE_NAME = 'comic.json';
+
+// Parse the command line. Returns an error message when it is invalid, and
+// null when only the usage was asked for.
+function parseBatchOptions(args: string[]): BatchOptions | string | null {
+  let parsed;
+  try {
+    parsed = parseArgs({
+      args,
+      allowPositionals: true,
+      options: {
+        out: { type: 'string', default: 'batch-output' },
+        concurrency: { type: 'string', default: '2' },
+        export: { type: 'string' },
+        fresh: { type: 'boolean', default: false },
+        help: { type: 'boolean', default: false },
+      },
+    });
+  } catch (error) {
+    return `${describeError(error)}\n\n${USAGE}`;
+  }
+  const { values, positionals } = parsed;
+
+  if (values.help) {
+    return null;
+  }
+  if (positionals.length !== 1) {
+    return USAGE;
+  }
+
+  const concurrency = Number(values.concurrency);
+  if (!Number.isInteger(concurrency) || concurrency < 1) {
+    return '--concurrency must be a positive integer';
+  }
+
+  if (values.export !== undefined && !isComicExportFormat(values.export)) {
+    return `--export must be one of: ${COMIC_EXPORT_FORMATS.join(', ')}`;
+  }
+
+  return {
+    manifestPath: positionals[0],
+    outDir: path.resolve(values.out),
+    concurrency,
+    exportFormat: values.export,
+    fresh: values.fresh,
+  };
+}
+
+async function fileExists(filePath: string): Promise<boolean> {
+  try {
+    await fs.access(filePath);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// Write a file through a temporary name, so an interrupted run never leaves
+// a half-written file behind
+async function writeFileAtomic(filePath: string, data: string | Buffer) {
+  const tempPath = `${filePath}.tmp`;
+  await fs.writeFile(tempPath, data);
+  await fs.rename(tempPath, filePath);
+}
+
+// Generate one comic and write its script, images and optional export to its
+// output directory. comic.json is written last and marks the comic as done.
+async function generateBatchComic(
+  row: ComicManifestRow,
+  options: BatchOptions,
+  assetStore: AssetStore,
+  assetDir: string
+) {
+  const { fresh } = options;
+  const script = await writeComicScript(row.options.llm, row.input, row.id, {
+    fresh,
+  });
+  const result = await runComicGraph<ComicImageOutput>(
+    getRenderGraphs(row.options.image, assetDir).render,
+    script,
+    row.id,
+    { fresh }
+  );
+
+  const missing = result.panels.filter((panel) => !panel.assetId);
+  if (missing.length > 0) {
+    throw new Error(
+      `No image for panel(s) ${missing.map((p) => p.panelNumber).join(', ')}`
+    );
+  }
+
+  const comicDir = path.join(options.outDir, row.id);
+  await fs.mkdir(comicDir, { recursive: true });
+
+  // Copy the images out of the asset store under readable names
+  const copyImage = async (assetId: string, fileName: string) => {
+    const sourcePath = await assetStore.resolvePath(assetId);
+    if (!sourcePath) {
+      throw new Error(`Image ${assetId} is missing from the asset store`);
+    }
+    await fs.copyFile(sourcePath, path.join(comicDir, fileName));
+    return fileName;
+  };
+
+  const panels: ComicImagePanel[] = [];
+  for (const panel of result.panels) {
+    panels.push({
+      ...panel,
+      imageUrl: await copyImage(
+        panel.assetId!,
+        `panel-${panel.panelNumber}.png`
+      ),
+    });
+  }
+  const page = result.page?.assetId
+    ? {
+        ...result.page,
+        imageUrl: await copyImage(result.page.assetId, 'page.png'),
+      }
+    : undefined;
+
+  if (options.exportFormat) {
+    const request: ComicRequest = {
+      id: row.id,
+      ...row.input,
+      layout: row.input.layout ?? result.layout.template,
+      panelCount: result.panels.length,
+      options: row.options,
+      status: 'completed',
+      result,
+      createdAt: new Date(),
+    };
+    const { data, fileName } = await exportComic(
+      request,
+      options.exportFormat,
+      assetStore
+    );
+    await writeFileAtomic(path.join(comicDir, fileName), data);
+  }
+
+  const comic = {
+    id: row.id,
+    input: row.input,
+    options: row.options,
+    result: { ...result, panels, page },
+    completedAt: new Date().toISOString(),
+  };
+  await writeFileAtomic(
+    path.join(comicDir, COMIC_FILE_NAME),
+    JSON.stringify(comic, null, 2)
+  );
+}
+
+async function runBatch(options: BatchOptions): Promise<BatchSummary> {
+  const startedAt = new Date();
+  const rows = await readComicManifest(
+    options.manifestPath,
+    loadModelsConfig(process.env.COMIC_MODELS_CONFIG)
+  );
+
+  // Generated images are stored here first, as the server does in its data
+  // directory
+  const assetDir = path.join(options.outDir, '.assets');
+  const assetStore = new AssetStore(assetDir);
+
+  const summary: BatchSummary = {
+    manifest: path.resolve(options.manifestPath),
+    startedAt: startedAt.toISOString(),
+    finishedAt: '',
+    total: rows.length,
+    completed: 0,
+    skipped: 0,
+    failed: 0,
+    failures: [],
+  };
+
+  console.log(
+    `📚 Generating ${rows.length} comic(s) into ${options.outDir} (${options.concurrency} at a time)`
+  );
+
+  const limiter = new ConcurrencyLimiter(options.concurrency);
+  let finished = 0;
+
+  await Promise.all(
+    rows.map((row) =>
+      limiter.run(async () => {
+        const progress = () => `[${++finished}/${rows.length}]`;
+
+        if (
+          await fileExists(path.join(options.outDir, row.id, COMIC_FILE_NAME))
+        ) {
+          summary.skipped++;
+          console.log(`${progress()} ⏭️  ${row.id} was already generated`);
+          return;
+        }
+
+        try {
+          await generateBatchComic(row, options, assetStore, assetDir);
+          summary.completed++;
+          console.log(`${progress()} ✅ ${row.id}`);
+        } catch (error) {
+          summary.failed++;
+          summary.failures.push({
+            id: row.id,
+            row: row.rowNumber,
+            error: describeError(error),
+          });
+          console.error(`${progress()} ❌ ${row.id}: ${describeError(error)}`);
+        }
+      })
+    )
+  );
+
+  summary.failures.sort((a, b) => a.row - b.row);
+  summary.finishedAt = new Date().toISOString();
+  await writeFileAtomic(
+    path.join(options.outDir, 'summary.json'),
+    JSON.stringify(summary, null, 2)
+  );
+
+  return summary;
+}
+
+async function main() {
+  const options = parseBatchOptions(process.argv.slice(2));
+  if (options === null) {
+    console.log(USAGE);
+    process.exit(0);
+  }
+  if (typeof options === 'string') {
+    console.error(options);
+    process.exit(1);
+  }
+
+  if (!process.env.INWORLD_API_KEY) {
+    console.error('❌ INWORLD_API_KEY environment variable is required');
+    process.exit(1);
+  }
+
+  // Fail on provider and moderator misconfiguration before the first comic
+  createImageProvider(getConfiguredImageProviderName());
+  getConfiguredModerators();
+
+  await fs.mkdir(options.outDir, { recursive: true });
+  const summary = await runBatch(options);
+
+  console.log(
+    `📊 ${summary.completed} completed, ${summary.skipped} skipped, ${summary.failed} failed. Summary: ${path.join(options.outDir, 'summary.json')}`
+  );
+  for (const failure of summary.failures) {
+    console.log(`   Row ${failure.row} (${failure.id}): ${failure.error}`);
+  }
+
+  await stopInworldRuntime();
+  process.exit(summary.failed > 0 ? 1 : 0);
+}
+
+main().catch(async (error) => {
+  console.error('❌ Batch generation failed:', describeError(error));
+  await stopInworldRuntime();
+  process.exit(1);
+});
@@ -0,0 +1,141 @@
+import crypto from 'crypto';
+import { abortable } from './concurrency';
+
+// How long generated scripts and panel images are reused for identical
+// inputs (0 disables caching and sharing of in-flight work)
+export const COMIC_CACHE_TTL_MS =
+  Number(process.env.COMIC_CACHE_TTL_SECONDS ?? 3600) * 1000;
+const COMIC_CACHE_MAX_ENTRIES = Number(
+  process.env.COMIC_CACHE_MAX_ENTRIES ?? 1000
+);
+
+export function isComicCacheEnabled(): boolean {
+  return COMIC_CACHE_TTL_MS > 0;
+}
+
+// In-memory cache whose entries expire after a fixed time. The oldest entry
+// is evicted when it is full.
+export class TtlCache<T> {
+  private readonly ttlMs: number;
+  private readonly maxEntries: number;
+  private readonly entries = new Map<string, { value: T; expiresAt: number }>();
+
+  constructor(
+    ttlMs = COMIC_CACHE_TTL_MS,
+    maxEntries = COMIC_CACHE_MAX_ENTRIES
+  ) {
+    this.ttlMs = ttlMs;
+    this.maxEntries = maxEntries;
+  }
+
+  get(key: string): T | undefined {
+    const entry = this.entries.get(key);
+    if (!entry) {
+      return undefined;
+    }
+    if (entry.expiresAt <= Date.now()) {
+      this.entries.delete(key);
+      return undefined;
+    }
+    return entry.value;
+  }
+
+  set(key: string, value: T): void {
+    if (this.ttlMs <= 0 || this.maxEntries <= 0) {
+      return;
+    }
+
+    // Re-inserting moves the key to the end of the eviction order
+    this.entries.delete(key);
+    while (this.entries.size >= this.maxEntries) {
+      const oldest = this.entries.keys().next().value as string;
+      this.entries.delete(oldest);
+    }
+    this.entries.set(key, { value, expiresAt: Date.now() + this.ttlMs });
+  }
+
+  delete(key: string): void {
+    this.entries.delete(key);
+  }
+}
+
+interface InFlightExecution<T> {
+  promise: Promise<T>;
+  controller: AbortController;
+  callers: number;
+}
+
+// Runs one task per key at a time: callers asking for a key that is already
+// running wait for that run instead of starting another. A caller's signal
+// only stops its own wait; the task is aborted once every caller has given
+// up on it.
+export class InFlightExecutions<T> {
+  private readonly executions = new Map<string, InFlightExecution<T>>();
+
+  async run(
+    key: string,
+    task: (signal: AbortSignal) => Promise<T>,
+    signal?: AbortSignal
+  ): Promise<{ value: T; shared: boolean }> {
+    signal?.throwIfAborted();
+
+    let execution = this.executions.get(key);
+    const shared = execution !== undefined;
+
+    if (!execution) {
+      const controller = new AbortController();
+      const started: InFlightExecution<T> = {
+        promise: task(controller.signal).finally(() => {
+          if (this.executions.get(key) === started) {
+            this.executions.delete(key);
+          }
+        }),
+        controller,
+        callers: 0,
+      };
+      // Callers that gave up no longer observe the outcome
+      started.promise.catch(() => undefined);
+      this.executions.set(key, started);
+      execution = started;
+    }
+
+    const current = execution;
+    current.callers++;
+    try {
+      return { value: await abortable(current.promise, signal), shared };
+    } finally {
+      current.callers--;
+      if (current.callers === 0 && signal?.aborted) {
+        current.controller.abort(signal.reason);
+      }
+    }
+  }
+}
+
+// Cache key for a value: the SHA-256 of its JSON with object keys sorted, so
+// the order fields were set in does not matter
+export function cacheKey(value: unknown): string {
+  return crypto
+    .createHash('sha256')
+    .update(JSON.stringify(sortKeys(value)))
+    .digest('hex');
+}
+
+function sortKeys(value: unknown): unknown {
+  if (Array.isArray(value)) {
+    return value.map(sortKeys);
+  }
+  if (value !== null && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.keys(value)
+        .sort()
+        .map((key) => [key, sortKeys((value as Record<string, unknown>)[key])])
+    );
+  }
+  return value;
+}
+
+// Text as it matters for generation: case and runs of whitespace are ignored
+export function normalizeCacheText(text: string | undefined): string {
+  return (text ?? '').trim().replace(/\s+/g, ' ').toLowerCase();
+}
@@ -0,0 +1,191 @@
+import { ComicCharacter, describeComicCharacter } from './comic_characters';
+
+// One character in a comic's cast. Scripts refer to cast members by name.
+export interface ComicCastMember {
+  name: string;
+  description: string;
+  role?: string; // Free text, such as "hero" or "narrator"
+  characterId?: string; // Saved character the description was taken from
+}
+
+export const MIN_CAST_SIZE = 1;
+export const MAX_CAST_SIZE = 6;
+const MAX_CAST_NAME_LENGTH = 100;
+
+// A validated cast and the saved characters it uses
+export interface ParsedComicCast {
+  cast: ComicCastMember[];
+  characters: ComicCharacter[];
+}
+
+// Fields a generation request may describe its cast with: a "characters"
+// array, or the older pair of descriptions with optional saved characters
+export interface ComicCastFields {
+  characters?: unknown;
+  character1Description?: unknown;
+  character2Description?: unknown;
+  character1Id?: unknown;
+  character2Id?: unknown;
+}
+
+// Validate the cast of a generation request. Entries with a characterId take
+// their name and description from that saved character, looked up with
+// findCharacter; without it saved characters cannot be used. Returns an
+// error message when the cast is invalid.
+export async function parseComicCast(
+  body: ComicCastFields,
+  findCharacter?: (id: string) => Promise<ComicCharacter | undefined>
+): Promise<ParsedComicCast | string> {
+  const requested = requestedCast(body);
+  if (typeof requested === 'string') {
+    return requested;
+  }
+
+  const cast: ComicCastMember[] = [];
+  const characters: ComicCharacter[] = [];
+
+  for (const [index, entry] of requested.entries()) {
+    const label = `Character ${index + 1}`;
+    if (typeof entry !== 'object' || entry === null || Array.isArray(entry)) {
+      return `${label} must be an object with a name and description`;
+    }
+    const { name, description, role, characterId } = entry as Record<
+      string,
+      unknown
+    >;
+
+    let saved: ComicCharacter | undefined;
+    if (characterId !== undefined) {
+      saved =
+        typeof characterId === 'string' && findCharacter
+          ? await findCharacter(characterId)
+          : undefined;
+      if (!saved) {
+        return `Saved character ${index + 1} not found`;
+      }
+    }
+
+    const memberName = name ?? saved?.name;
+    if (typeof memberName !== 'string' || memberName.trim().length === 0) {
+      return `${label} name is required`;
+    }
+    if (memberName.trim().length > MAX_CAST_NAME_LENGTH) {
+      return `${label} name must be at most ${MAX_CAST_NAME_LENGTH} characters`;
+    }
+
+    // Saved characters replace the typed-in description
+    const memberDescription = saved
+      ? describeComicCharacter(saved)
+      : description;
+    if (
+      typeof memberDescription !== 'string' ||
+      memberDescription.trim().length === 0
+    ) {
+      return `${label} description is required`;
+    }
+
+    if (role !== undefined && typeof role !== 'string') {
+      return `${label} role must be a string`;
+    }
+
+    if (findCastMember(memberName, cast)) {
+      return `${label} has the same name as another character`;
+    }
+
+    // The script names the character as the cast does, so its snapshot is
+    // renamed too for the panels to find it
+    if (saved) {
+      characters.push({ ...saved, name: memberName.trim() });
+    }
+
+    cast.push({
+      name: memberName.trim(),
+      description: memberDescription.trim(),
+      role: role?.trim() || undefined,
+      characterId: saved?.id,
+    });
+  }
+
+  return { cast, characters };
+}
+
+// Whether a request describes a cast at all, in either shape
+export function hasComicCast(body: ComicCastFields): boolean {
+  return [
+    body.characters,
+    body.character1Description,
+    body.character2Description,
+    body.character1Id,
+    body.character2Id,
+  ].some((field) => field !== undefined);
+}
+
+// The requested cast entries, before validation
+function requestedCast(body: ComicCastFields): unknown[] | string {
+  const {
+    characters,
+    character1Description,
+    character2Description,
+    character1Id,
+    character2Id,
+  } = body;
+  if (characters === undefined) {
+    // The older request shape: exactly two characters, named by position
+    // unless they are saved characters
+    return [
+      { description: character1Description, characterId: character1Id },
+      { description: character2Description, characterId: character2Id },
+    ].map((entry, index) => ({
+      ...entry,
+      name:
+        entry.characterId === undefined ? `Character ${index + 1}` : undefined,
+    }));
+  }
+
+  if (hasComicCast({ ...body, characters: undefined })) {
+    return 'Use either characters or character1Description and character2Description, not both';
+  }
+  if (
+    !Array.isArray(characters) ||
+    characters.length < MIN_CAST_SIZE ||
+    characters.length > MAX_CAST_SIZE
+  ) {
+    return `characters must be an array of ${MIN_CAST_SIZE} to ${MAX_CAST_SIZE} characters`;
+  }
+  return characters;
+}
+
+// The cast member with a name, ignoring case and surrounding whitespace
+export function findCastMember(
+  name: string,
+  cast: ComicCastMember[]
+): ComicCastMember | undefined {
+  const key = name.trim().toLowerCase();
+  return cast.find((member) => member.name.toLowerCase() === key);
+}
+
+// Cast members mentioned by name in a panel, for scripts that do not list
+// who appears
+export function findMentionedCastMembers(
+  panel: { dialogueText: string; visualDescription: string },
+  cast: ComicCastMember[]
+): ComicCastMember[] {
+  const text = `${panel.visualDescription} ${panel.dialogueText}`.toLowerCase();
+  return cast.filter((member) => text.includes(member.name.toLowerCase()));
+}
+
+// "Name (role): description", as used in prompts and exports
+export function describeCastMember(member: ComicCastMember): string {
+  const role = member.role ? ` (${member.role})` : '';
+  return `${member.name}${role}: ${member.description}`;
+}
+
+// Cast of a comic stored before casts existed, from its two descriptions
+export function castFromDescriptions(
+  character1Description: string,
+  character2Description: string
+): ComicCastMember[] {
+  return [character1Description, character2Description].map(
+    (description, index) => ({ name: `Character ${index + 1}`, description })
+  );
+}
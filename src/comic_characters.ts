@@ -0,0 +1,69 @@
+import { SavedCharacter } from './character_repository';
+
+// Snapshot of a saved character, carried through the graph so every panel
+// prompt describes the character the same way
+export interface ComicCharacter {
+  id: string;
+  name: string;
+  appearance: string;
+  personality?: string;
+  referenceImageAssetId?: string;
+  seed?: number;
+}
+
+// Datastore key used to pass the comic's saved characters from the story
+// generator to the response parser
+export const COMIC_CHARACTERS_DATASTORE_KEY = 'comicCharacters';
+
+export function toComicCharacter(character: SavedCharacter): ComicCharacter {
+  return {
+    id: character.id,
+    name: character.name,
+    appearance: character.appearance,
+    personality: character.personality,
+    referenceImageAssetId: character.referenceImageAssetId,
+    seed: character.seed,
+  };
+}
+
+// Free-text description used in place of a typed-in character description
+export function describeComicCharacter(character: ComicCharacter): string {
+  const personality = character.personality
+    ? ` Personality: ${character.personality}.`
+    : '';
+  return `Appearance: ${character.appearance}.${personality}`;
+}
+
+// Characters that appear in a panel, from the names the script lists for it
+// or else matched by name in its text. When no name is mentioned every
+// character is assumed to be present.
+export function findPanelCharacters(
+  panel: {
+    dialogueText: string;
+    visualDescription: string;
+    characters?: string[];
+  },
+  characters: ComicCharacter[]
+): ComicCharacter[] {
+  if (panel.characters) {
+    const names = panel.characters.map((name) => name.toLowerCase());
+    return characters.filter((character) =>
+      names.includes(character.name.toLowerCase())
+    );
+  }
+
+  const text = `${panel.visualDescription} ${panel.dialogueText}`.toLowerCase();
+  const featured = characters.filter((character) =>
+    text.includes(character.name.toLowerCase())
+  );
+  return featured.length > 0 ? featured : characters;
+}
+
+// Appearance notes appended to an image prompt
+export function characterAppearancePrompt(
+  characters: ComicCharacter[]
+): string {
+  return characters
+    .map((character) => `${character.name}: ${character.appearance}`)
+    .join('; ');
+}
@@ -0,0 +1,79 @@
+import { EventEmitter } from 'events';
+import { ComicImageOutput, ComicPanelCandidate } from './comic_image_node';
+import { ComicStoryOutput } from './comic_story_node';
+import { ComicRequest } from './comic_repository';
+
+// Progress events published while a comic is being generated
+export type ComicProgressEvent =
+  | { type: 'status'; status: ComicRequest['status'] }
+  | { type: 'queued'; position: number }
+  | {
+      type: 'story_repairing';
+      round: number;
+      maxRounds: number;
+      errors: string[];
+    }
+  | { type: 'llm_completed'; promptTokens: number; completionTokens: number }
+  | { type: 'story_parsed'; story: ComicStoryOutput }
+  | { type: 'awaiting_approval'; script: ComicStoryOutput }
+  | { type: 'images_started'; panelCount: number }
+  | {
+      type: 'panel_started';
+      panelNumber: number;
+      attempt: number;
+      maxRetries: number;
+    }
+  | {
+      type: 'panel_retrying';
+      panelNumber: number;
+      attempt: number;
+      delayMs: number;
+      error: string;
+    }
+  | {
+      type: 'panel_completed';
+      panelNumber: number;
+      imageUrl: string;
+      assetId?: string;
+      cached?: boolean; // Reused rather than generated for this comic
+      candidates?: ComicPanelCandidate[]; // Set when several were generated
+      selectedCandidate?: number;
+    }
+  | { type: 'panel_failed'; panelNumber: number; error: string }
+  | { type: 'cache_hit'; kind: 'script' | 'panel_image'; panelNumber?: number }
+  | { type: 'completed'; result: ComicImageOutput }
+  | { type: 'error'; error: string }
+  | { type: 'rejected'; reason: string };
+
+export type ComicProgressListener = (event: ComicProgressEvent) => void;
+
+// In-process pub/sub for comic progress, keyed by request id
+export class ComicEventBus {
+  private readonly emitter = new EventEmitter();
+
+  constructor() {
+    // One listener per open SSE connection, so there is no sensible cap
+    this.emitter.setMaxListeners(0);
+  }
+
+  publish(requestId: string | undefined, event: ComicProgressEvent): void {
+    if (requestId) {
+      this.emitter.emit(requestId, event);
+    }
+  }
+
+  // Returns a function that removes the listener
+  subscribe(requestId: string, listener: ComicProgressListener): () => void {
+    this.emitter.on(requestId, listener);
+    return () => {
+      this.emitter.off(requestId, listener);
+    };
+  }
+}
+
+export const comicEvents = new ComicEventBus();
+
+// Error message suitable for a progress event
+export function describeError(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
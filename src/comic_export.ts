@@ -0,0 +1,505 @@
+import JSZip from 'jszip';
+import PDFDocument from 'pdfkit';
+import sharp from 'sharp';
+import { AssetStore } from './asset_store';
+import { ComicImagePanel } from './comic_image_node';
+import { loadComicImage } from './comic_page_node';
+import { ComicRequest } from './comic_repository';
+import { ComicCastMember, describeCastMember } from './comic_cast';
+import { escapeXml } from './svg_text';
+import { applyComicTranslation } from './comic_translation_node';
+import { DEFAULT_COMIC_LANGUAGE, languageName } from './comic_language';
+
+export const COMIC_EXPORT_FORMATS = ['pdf', 'cbz', 'html'] as const;
+
+export type ComicExportFormat = (typeof COMIC_EXPORT_FORMATS)[number];
+
+export function isComicExportFormat(
+  format: unknown
+): format is ComicExportFormat {
+  return (COMIC_EXPORT_FORMATS as readonly unknown[]).includes(format);
+}
+
+// Raised when a comic's text cannot be set in the requested format
+export class UnsupportedExportTextError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'UnsupportedExportTextError';
+  }
+}
+
+// A finished comic bundled into a single portable file
+export interface ComicExport {
+  data: Buffer;
+  contentType: string;
+  fileName: string;
+}
+
+// Everything an export needs, with the images already loaded as PNG
+interface ExportableComic {
+  title: string;
+  issueNumber?: number; // Set for issues of a series
+  artStyle: string;
+  theme?: string;
+  cast: ComicCastMember[];
+  language: string; // Language of the title and dialogue
+  createdAt: Date;
+  columns: number;
+  rows: number;
+  panels: ExportablePanel[];
+  page?: Buffer; // Composited page, when available
+}
+
+interface ExportablePanel {
+  panel: ComicImagePanel;
+  image?: Buffer; // Missing when the panel image failed
+  gridArea: string; // CSS grid-area from the comic's layout
+}
+
+// One caption, dialogue line or sound effect of a panel, in reading order
+interface PanelText {
+  kind: 'caption' | 'dialogue' | 'soundEffect';
+  text: string;
+  speaker?: string;
+}
+
+// Characters beyond Latin-1 that the built-in PDF fonts can set, as
+// Windows-1252 (WinAnsiEncoding) encodes them. Everything else, such as
+// Cyrillic, Arabic or CJK text, would come out as missing glyphs.
+const WIN_ANSI_EXTRAS = new Set('€‚ƒ„…†‡ˆ‰Š‹ŒŽ‘’“”•–—˜™š›œžŸ');
+
+const CONTENT_TYPES: Record<ComicExportFormat, string> = {
+  pdf: 'application/pdf',
+  cbz: 'application/vnd.comicbook+zip',
+  html: 'text/html; charset=utf-8',
+};
+
+// Bundle a completed comic, with its images, into a PDF, CBZ or HTML file.
+// With a language, the comic's translation into it is exported instead.
+export async function exportComic(
+  request: ComicRequest,
+  format: ComicExportFormat,
+  assetStore?: AssetStore,
+  language?: string
+): Promise<ComicExport> {
+  const comic = await loadExportableComic(request, assetStore, language);
+  return renderExport([comic], comicHeading(comic), format);
+}
+
+// Bundle completed issues of a series, in the given order, into one file.
+// With a language, issues translated into it are exported in translation.
+export async function exportComicSeries(
+  title: string,
+  issues: ComicRequest[],
+  format: ComicExportFormat,
+  assetStore?: AssetStore,
+  language?: string
+): Promise<ComicExport> {
+  // One issue at a time, so only one issue's images are being decoded
+  const comics: ExportableComic[] = [];
+  for (const issue of issues) {
+    comics.push(await loadExportableComic(issue, assetStore, language));
+  }
+  return renderExport(comics, title, format);
+}
+
+async function renderExport(
+  comics: ExportableComic[],
+  title: string,
+  format: ComicExportFormat
+): Promise<ComicExport> {
+  const exporters: Record<ComicExportFormat, () => Promise<Buffer>> = {
+    pdf: () => renderPdf(comics, title),
+    cbz: () => renderCbz(comics, title),
+    html: async () => Buffer.from(renderHtml(comics, title), 'utf8'),
+  };
+
+  return {
+    data: await exporters[format](),
+    contentType: CONTENT_TYPES[format],
+    fileName: `${toFileName(title)}.${format}`,
+  };
+}
+
+async function loadExportableComic(
+  request: ComicRequest,
+  assetStore?: AssetStore,
+  language?: string
+): Promise<ExportableComic> {
+  if (!request.result) {
+    throw new Error(`Comic ${request.id} has no result to export`);
+  }
+
+  // Comics not translated into the language keep their own
+  const translation = request.result.translations?.find(
+    (candidate) => candidate.language === language
+  );
+  const result = translation
+    ? applyComicTranslation(request.result, translation)
+    : request.result;
+
+  const panels = await Promise.all(
+    result.panels.map(async (panel) => {
+      const placement = result.layout.placements.find(
+        (p) => p.panelNumber === panel.panelNumber
+      );
+      return {
+        panel,
+        image: panel.imageUrl
+          ? await loadPngOrUndefined(panel, assetStore)
+          : undefined,
+        gridArea: placement
+          ? `${placement.row} / ${placement.column} / span ${placement.rowSpan} / span ${placement.columnSpan}`
+          : 'auto',
+      };
+    })
+  );
+
+  return {
+    title: result.title,
+    issueNumber: request.issueNumber,
+    artStyle: result.artStyle,
+    theme: request.theme,
+    cast: request.cast,
+    language: result.language ?? DEFAULT_COMIC_LANGUAGE,
+    createdAt: request.createdAt,
+    columns: result.layout.columns,
+    rows: result.layout.rows,
+    panels,
+    page: result.page
+      ? await loadPngOrUndefined(result.page, assetStore)
+      : undefined,
+  };
+}
+
+// Load an image and normalize it to PNG. A missing image leaves a gap in the
+// export instead of failing it.
+async function loadPngOrUndefined(
+  image: Pick<ComicImagePanel, 'imageUrl' | 'assetId'>,
+  assetStore?: AssetStore
+): Promise<Buffer | undefined> {
+  try {
+    const data = await loadComicImage(image, assetStore);
+    return await sharp(data).png().toBuffer();
+  } catch (error) {
+    console.error(`❌ Failed to load ${image.imageUrl} for export:`, error);
+    return undefined;
+  }
+}
+
+// For every comic, a cover page with the title, metadata and finished page,
+// then one page per panel with its dialogue
+function renderPdf(comics: ExportableComic[], title: string): Promise<Buffer> {
+  assertPdfEncodable(comics, title);
+
+  return new Promise((resolve, reject) => {
+    const doc = new PDFDocument({
+      size: 'A4',
+      margin: 50,
+      info: {
+        Title: title,
+        Subject: `Comic in ${comics[0].artStyle}`,
+        Creator: 'Comic Generator',
+        CreationDate: comics[0].createdAt,
+      },
+    });
+
+    const chunks: Buffer[] = [];
+    doc.on('data', (chunk: Buffer) => chunks.push(chunk));
+    doc.on('end', () => resolve(Buffer.concat(chunks)));
+    doc.on('error', reject);
+
+    const width = doc.page.width - 100;
+
+    comics.forEach((comic, index) => {
+      if (index > 0) {
+        doc.addPage();
+      }
+      renderPdfComic(doc, comic, comics.length > 1 ? title : undefined, width);
+    });
+
+    doc.end();
+  });
+}
+
+// Throw unless every text the PDF sets can be encoded by its fonts, since
+// pdfkit silently drops the glyphs it cannot encode
+function assertPdfEncodable(comics: ExportableComic[], title: string) {
+  for (const comic of comics) {
+    const texts = [
+      title,
+      comicHeading(comic),
+      ...describeMetadata(comic),
+      ...comic.panels.flatMap(({ panel }) =>
+        describePanelText(panel).flatMap(({ text, speaker }) =>
+          speaker ? [speaker, text] : [text]
+        )
+      ),
+    ];
+    const unsupported = texts
+      .flatMap((text) => Array.from(text))
+      .find(
+        (char) => char.codePointAt(0)! > 0xff && !WIN_ANSI_EXTRAS.has(char)
+      );
+    if (unsupported) {
+      throw new UnsupportedExportTextError(
+        `PDF export cannot render characters such as "${unsupported}" in "${comicHeading(comic)}" (${languageName(comic.language)}); export it as HTML or CBZ instead`
+      );
+    }
+  }
+}
+
+function renderPdfComic(
+  doc: PDFKit.PDFDocument,
+  comic: ExportableComic,
+  collectionTitle: string | undefined,
+  width: number
+) {
+  if (collectionTitle) {
+    doc
+      .font('Helvetica')
+      .fontSize(12)
+      .fillColor('#888888')
+      .text(collectionTitle, { width });
+  }
+  doc
+    .font('Helvetica-Bold')
+    .fontSize(28)
+    .fillColor('#000000')
+    .text(comicHeading(comic), { width });
+  doc.moveDown(0.5).font('Helvetica').fontSize(11).fillColor('#444444');
+  for (const line of describeMetadata(comic)) {
+    doc.text(line, { width });
+  }
+
+  if (comic.page) {
+    doc.moveDown();
+    const height = doc.page.height - 50 - doc.y;
+    doc.image(comic.page, { fit: [width, height], align: 'center' });
+  }
+
+  for (const { panel, image } of comic.panels) {
+    doc.addPage();
+    doc
+      .font('Helvetica-Bold')
+      .fontSize(16)
+      .fillColor('#000000')
+      .text(`Panel ${panel.panelNumber}`, { width });
+    doc.moveDown(0.5);
+
+    if (image) {
+      const top = doc.y;
+      doc.image(image, 50, top, { fit: [width, width], align: 'center' });
+      doc.y = top + width + 15;
+    } else {
+      doc
+        .font('Helvetica-Oblique')
+        .fontSize(12)
+        .text('Image unavailable', { width });
+      doc.moveDown();
+    }
+
+    for (const { kind, text, speaker } of describePanelText(panel)) {
+      if (kind === 'caption') {
+        doc.font('Helvetica-Oblique').fontSize(14).text(text, { width });
+      } else if (kind === 'soundEffect') {
+        doc.font('Helvetica-Bold').fontSize(16).text(text, { width });
+      } else if (speaker) {
+        doc
+          .font('Helvetica-Bold')
+          .fontSize(14)
+          .text(`${speaker}: `, { width, continued: true })
+          .font('Helvetica')
+          .text(text);
+      } else {
+        doc.font('Helvetica').fontSize(14).text(text, { width });
+      }
+      doc.moveDown(0.3);
+    }
+  }
+}
+
+// Comic book archive: the page images in reading order plus a ComicInfo.xml
+// that comic readers use for metadata
+async function renderCbz(
+  comics: ExportableComic[],
+  title: string
+): Promise<Buffer> {
+  const zip = new JSZip();
+  const images = comics
+    .flatMap((comic) => [comic.page, ...comic.panels.map(({ image }) => image)])
+    .filter((image) => image !== undefined);
+
+  images.forEach((image, index) => {
+    zip.file(`${String(index + 1).padStart(3, '0')}.png`, image);
+  });
+
+  // Issues are introduced by their heading when there are several
+  const describeComics = (describe: (comic: ExportableComic) => string[]) =>
+    comics
+      .map((comic) =>
+        [
+          ...(comics.length > 1 ? [comicHeading(comic)] : []),
+          ...describe(comic),
+        ].join('\n')
+      )
+      .join('\n\n');
+
+  const script = describeComics((comic) =>
+    comic.panels.flatMap(({ panel }) =>
+      describePanelText(panel).map(
+        ({ kind, text, speaker }) =>
+          `${panel.panelNumber}. ${
+            kind === 'caption'
+              ? `[${text}]`
+              : speaker
+                ? `${speaker}: ${text}`
+                : text
+          }`
+      )
+    )
+  );
+  const characters = new Set(
+    comics.flatMap((comic) => comic.cast.map((member) => member.name))
+  );
+  const { createdAt, language } = comics[0];
+
+  zip.file(
+    'ComicInfo.xml',
+    `<?xml version="1.0" encoding="utf-8"?>
+<ComicInfo xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance" xmlns:xsd="http://www.w3.org/2001/XMLSchema">
+  <Title>${escapeXml(title)}</Title>
+  <Summary>${escapeXml(script)}</Summary>
+  <Notes>${escapeXml(describeComics(describeMetadata))}</Notes>
+  <Year>${createdAt.getUTCFullYear()}</Year>
+  <Month>${createdAt.getUTCMonth() + 1}</Month>
+  <Day>${createdAt.getUTCDate()}</Day>
+  <Characters>${escapeXml(Array.from(characters).join(', '))}</Characters>
+  <PageCount>${images.length}</PageCount>
+  <LanguageISO>${escapeXml(language)}</LanguageISO>
+</ComicInfo>
+`
+  );
+
+  // Images are already compressed, so store them as-is
+  return zip.generateAsync({ type: 'nodebuffer', compression: 'STORE' });
+}
+
+// Single HTML file with the panels of every comic laid out on its grid and
+// every image inlined, so it works offline
+function renderHtml(comics: ExportableComic[], title: string): string {
+  const sections = comics
+    .map((comic) => {
+      const heading =
+        comics.length > 1 ? `<h2>${escapeXml(comicHeading(comic))}</h2>` : '';
+      return `${heading}
+    <div class="grid" style="grid-template-columns: repeat(${comic.columns}, 1fr); grid-template-rows: repeat(${comic.rows}, auto);">
+      ${renderHtmlPanels(comic)}
+    </div>
+    <ul>
+        ${describeMetadata(comic)
+          .map((line) => `<li>${escapeXml(line)}</li>`)
+          .join('\n        ')}
+    </ul>`;
+    })
+    .join('\n    ');
+
+  return `<!DOCTYPE html>
+<html lang="${escapeXml(comics[0]?.language ?? DEFAULT_COMIC_LANGUAGE)}">
+  <head>
+    <meta charset="utf-8">
+    <meta name="viewport" content="width=device-width, initial-scale=1">
+    <title>${escapeXml(title)}</title>
+    <style>
+      body { font-family: 'Comic Neue', 'Comic Sans MS', sans-serif; max-width: 1100px; margin: 0 auto; padding: 20px; background: #fafafa; }
+      h1, h2 { text-align: center; }
+      h2 { margin-top: 40px; }
+      .grid { display: grid; gap: 15px; }
+      figure { margin: 0; background: #fff; border: 3px solid #333; display: flex; flex-direction: column; }
+      figure img { width: 100%; height: 100%; object-fit: cover; flex: 1; }
+      figure .text { padding: 10px; border-top: 2px solid #333; text-align: center; }
+      figure p { margin: 0 0 4px; }
+      figure .caption { font-style: italic; background: #fff6c2; padding: 4px; }
+      figure .sfx { font-weight: bold; font-size: 1.2rem; color: #d35400; letter-spacing: 1px; }
+      .missing { flex: 1; min-height: 200px; display: flex; align-items: center; justify-content: center; color: #777; font-style: italic; }
+      ul { color: #555; font-size: 0.9rem; }
+    </style>
+  </head>
+  <body>
+    <h1>${escapeXml(title)}</h1>
+    ${sections}
+  </body>
+</html>
+`;
+}
+
+function renderHtmlPanels(comic: ExportableComic): string {
+  return comic.panels
+    .map(({ panel, image, gridArea }) => {
+      const picture = image
+        ? `<img src="data:image/png;base64,${image.toString('base64')}" alt="Panel ${panel.panelNumber}">`
+        : '<div class="missing">Image unavailable</div>';
+      const lines = describePanelText(panel).map(({ kind, text, speaker }) =>
+        kind === 'caption'
+          ? `<p class="caption">${escapeXml(text)}</p>`
+          : kind === 'soundEffect'
+            ? `<p class="sfx">${escapeXml(text)}</p>`
+            : `<p>${speaker ? `<strong>${escapeXml(speaker)}:</strong> ` : ''}${escapeXml(text)}</p>`
+      );
+      const text =
+        lines.length > 0 ? `<div class="text">${lines.join('')}</div>` : '';
+      return `<figure style="grid-area: ${gridArea}">${picture}${text}</figure>`;
+    })
+    .join('\n      ');
+}
+
+// The text of a panel: captions, dialogue lines and sound effects. Panels from
+// older scripts only have dialogueText.
+function describePanelText(panel: ComicImagePanel): PanelText[] {
+  if (!panel.dialogue) {
+    return panel.dialogueText
+      ? [{ kind: 'dialogue', text: panel.dialogueText }]
+      : [];
+  }
+  return [
+    ...(panel.captions ?? []).map((text) => ({
+      kind: 'caption' as const,
+      text,
+    })),
+    ...panel.dialogue.map((line) => ({
+      kind: 'dialogue' as const,
+      text: line.text,
+      speaker: line.speaker,
+    })),
+    ...(panel.soundEffects ?? []).map((text) => ({
+      kind: 'soundEffect' as const,
+      text,
+    })),
+  ];
+}
+
+// "Issue 2: Title" for issues of a series, otherwise the title
+function comicHeading(comic: ExportableComic): string {
+  return comic.issueNumber !== undefined
+    ? `Issue ${comic.issueNumber}: ${comic.title}`
+    : comic.title;
+}
+
+function describeMetadata(comic: ExportableComic): string[] {
+  return [
+    `Art style: ${comic.artStyle}`,
+    ...comic.cast.map((member) => `Character: ${describeCastMember(member)}`),
+    ...(comic.theme ? [`Theme: ${comic.theme}`] : []),
+    `Created: ${comic.createdAt.toISOString()}`,
+  ];
+}
+
+// Title turned into a safe download file name
+function toFileName(title: string): string {
+  const slug = title
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, 60);
+  return slug || 'comic';
+}
@@ -0,0 +1,538 @@
+import { v4 as uuidv4 } from 'uuid';
+import {
+  CustomNode,
+  Graph,
+  GraphBuilder,
+  ProcessContext,
+  RemoteLLMChatNode,
+} from '@inworld/runtime/graph';
+import { GraphTypes } from '@inworld/runtime/common';
+import {
+  ComicStoryGeneratorNode,
+  ComicStoryInput,
+  ComicStoryOutput,
+  ComicStoryParseResult,
+  ComicStoryRepairInput,
+  ComicStoryRepairNode,
+  COMIC_CAST_DATASTORE_KEY,
+  COMIC_LANGUAGE_DATASTORE_KEY,
+  COMIC_LAYOUT_DATASTORE_KEY,
+  COMIC_PROMPT_TOKENS_DATASTORE_KEY,
+  parseComicStoryResponse,
+} from './comic_story_node';
+import { ComicCastMember } from './comic_cast';
+import {
+  ComicLayout,
+  DEFAULT_LAYOUT_TEMPLATE,
+  DEFAULT_PANEL_COUNT,
+} from './comic_layout';
+import {
+  COMIC_FRESH_DATASTORE_KEY,
+  COMIC_REQUEST_ID_DATASTORE_KEY,
+  ComicImageGeneratorConfig,
+  ComicImageGeneratorNode,
+} from './comic_image_node';
+import { ComicPageCompositorNode } from './comic_page_node';
+import { getConfiguredImageProviderName } from './image_provider';
+import {
+  COMIC_CHARACTERS_DATASTORE_KEY,
+  ComicCharacter,
+} from './comic_characters';
+import { comicEvents } from './comic_events';
+import {
+  ComicPromptSafetyNode,
+  ComicScriptSafetyNode,
+  ComicTranslationSafetyNode,
+  parseContentRejection,
+} from './content_safety_node';
+import {
+  COMIC_TRANSLATION_DATASTORE_KEY,
+  ComicTranslation,
+  ComicTranslationInput,
+  ComicTranslationPromptNode,
+  parseComicTranslationResponse,
+} from './comic_translation_node';
+import { DEFAULT_COMIC_LANGUAGE } from './comic_language';
+import {
+  imageDimensions,
+  ImageOptions,
+  LLMOptions,
+} from './generation_options';
+import { abortable, getProviderLimiter } from './concurrency';
+import { estimateTokens } from './comic_usage';
+import {
+  cacheKey,
+  InFlightExecutions,
+  isComicCacheEnabled,
+  normalizeCacheText,
+  TtlCache,
+} from './comic_cache';
+
+// Number of times an invalid script is sent back to the LLM for repair
+const SCRIPT_REPAIR_ROUNDS = Number(process.env.SCRIPT_REPAIR_ROUNDS ?? 2);
+
+// Create a parser node to convert LLM response to ComicStoryOutput
+class ComicResponseParserNode extends CustomNode {
+  process(
+    context: ProcessContext,
+    input: GraphTypes.Content
+  ): ComicStoryParseResult {
+    console.log('🔄 Parsing LLM response for comic story...');
+    const datastore = context.getDatastore();
+    const requestId = datastore.get(COMIC_REQUEST_ID_DATASTORE_KEY);
+    comicEvents.publish(requestId, {
+      type: 'llm_completed',
+      promptTokens: datastore.get(COMIC_PROMPT_TOKENS_DATASTORE_KEY),
+      completionTokens: estimateTokens(input.content),
+    });
+
+    const layout = datastore.get(COMIC_LAYOUT_DATASTORE_KEY) as
+      | ComicLayout
+      | undefined;
+    const cast = datastore.get(COMIC_CAST_DATASTORE_KEY) as
+      | ComicCastMember[]
+      | undefined;
+    const result = parseComicStoryResponse(input.content, layout, cast);
+
+    if (result.valid) {
+      result.story.language = datastore.get(COMIC_LANGUAGE_DATASTORE_KEY) as
+        | string
+        | undefined;
+
+      const characters = datastore.get(COMIC_CHARACTERS_DATASTORE_KEY) as
+        | ComicCharacter[]
+        | undefined;
+      if (characters?.length) {
+        result.story.characters = characters;
+      }
+
+      comicEvents.publish(requestId, {
+        type: 'story_parsed',
+        story: result.story,
+      });
+    }
+
+    return result;
+  }
+}
+
+// Create a parser node to convert the LLM's translation to ComicTranslation
+class ComicTranslationParserNode extends CustomNode {
+  process(
+    context: ProcessContext,
+    input: GraphTypes.Content
+  ): ComicTranslation {
+    console.log('🔄 Parsing LLM response for comic translation...');
+    const datastore = context.getDatastore();
+    comicEvents.publish(datastore.get(COMIC_REQUEST_ID_DATASTORE_KEY), {
+      type: 'llm_completed',
+      promptTokens: datastore.get(COMIC_PROMPT_TOKENS_DATASTORE_KEY),
+      completionTokens: estimateTokens(input.content),
+    });
+
+    const source = datastore.get(
+      COMIC_TRANSLATION_DATASTORE_KEY
+    ) as ComicTranslationInput;
+    return parseComicTranslationResponse(input.content, source);
+  }
+}
+
+// Comic generation graphs. Generation runs in two stages so a script can be
+// reviewed and edited before any images are paid for. Graphs are built on
+// first use for each LLM or image configuration and then cached; the models
+// config keeps the number of configurations small.
+export interface ScriptGraphs {
+  script: Graph;
+  repair: Graph; // Sends an invalid script back to the LLM with its errors
+}
+
+export interface RenderGraphs {
+  render: Graph;
+  panelImage: Graph; // Image-only graph to regenerate single panels
+}
+
+const scriptGraphCache = new Map<string, ScriptGraphs>();
+const renderGraphCache = new Map<string, RenderGraphs>();
+const translationGraphCache = new Map<string, Graph>();
+
+// Graph ids must be unique, so every cached configuration gets a number
+function cachedGraphId(name: string, cache: Map<string, unknown>): string {
+  return `${name}_${cache.size + 1}`;
+}
+
+function createLLMChatNode(llm: LLMOptions) {
+  return new RemoteLLMChatNode({
+    provider: llm.provider,
+    modelName: llm.model,
+    stream: false,
+    ...(llm.temperature !== undefined && {
+      textGenerationConfig: { temperature: llm.temperature },
+    }),
+  });
+}
+
+export function getScriptGraphs(llm: LLMOptions): ScriptGraphs {
+  const key = JSON.stringify([llm.provider, llm.model, llm.temperature]);
+  const cached = scriptGraphCache.get(key);
+  if (cached) {
+    return cached;
+  }
+
+  console.log(
+    `🔧 Building script graphs for ${llm.provider}/${llm.model}${llm.temperature !== undefined ? ` (temperature ${llm.temperature})` : ''}...`
+  );
+
+  // Script stage: Prompt Safety → Story Input → LLM → Parser
+  const promptSafetyNode = new ComicPromptSafetyNode();
+  const storyGeneratorNode = new ComicStoryGeneratorNode();
+  const llmChatNode = createLLMChatNode(llm);
+  const responseParserNode = new ComicResponseParserNode();
+
+  const script = new GraphBuilder({
+    id: cachedGraphId('comic_script_generator', scriptGraphCache),
+    apiKey: process.env.INWORLD_API_KEY!,
+  })
+    .addNode(promptSafetyNode)
+    .addNode(storyGeneratorNode)
+    .addNode(llmChatNode)
+    .addNode(responseParserNode)
+    .addEdge(promptSafetyNode, storyGeneratorNode)
+    .addEdge(storyGeneratorNode, llmChatNode)
+    .addEdge(llmChatNode, responseParserNode)
+    .setStartNode(promptSafetyNode)
+    .setEndNode(responseParserNode)
+    .build();
+
+  // Script repair: Repair Prompt → LLM → Parser
+  const repairNode = new ComicStoryRepairNode();
+  const repairLLMChatNode = createLLMChatNode(llm);
+  const repairParserNode = new ComicResponseParserNode();
+
+  const repair = new GraphBuilder({
+    id: cachedGraphId('comic_script_repairer', scriptGraphCache),
+    apiKey: process.env.INWORLD_API_KEY!,
+  })
+    .addNode(repairNode)
+    .addNode(repairLLMChatNode)
+    .addNode(repairParserNode)
+    .addEdge(repairNode, repairLLMChatNode)
+    .addEdge(repairLLMChatNode, repairParserNode)
+    .setStartNode(repairNode)
+    .setEndNode(repairParserNode)
+    .build();
+
+  const graphs = { script, repair };
+  scriptGraphCache.set(key, graphs);
+  return graphs;
+}
+
+// Translation: Prompt → LLM → Parser → Translation Safety
+export function getTranslationGraph(llm: LLMOptions): Graph {
+  const key = JSON.stringify([llm.provider, llm.model, llm.temperature]);
+  const cached = translationGraphCache.get(key);
+  if (cached) {
+    return cached;
+  }
+
+  console.log(
+    `🔧 Building translation graph for ${llm.provider}/${llm.model}...`
+  );
+
+  const promptNode = new ComicTranslationPromptNode();
+  const llmChatNode = createLLMChatNode(llm);
+  const parserNode = new ComicTranslationParserNode();
+  const safetyNode = new ComicTranslationSafetyNode();
+
+  const graph = new GraphBuilder({
+    id: cachedGraphId('comic_translator', translationGraphCache),
+    apiKey: process.env.INWORLD_API_KEY!,
+  })
+    .addNode(promptNode)
+    .addNode(llmChatNode)
+    .addNode(parserNode)
+    .addNode(safetyNode)
+    .addEdge(promptNode, llmChatNode)
+    .addEdge(llmChatNode, parserNode)
+    .addEdge(parserNode, safetyNode)
+    .setStartNode(promptNode)
+    .setEndNode(safetyNode)
+    .build();
+
+  translationGraphCache.set(key, graph);
+  return graph;
+}
+
+export function getRenderGraphs(
+  image: ImageOptions,
+  assetDir: string
+): RenderGraphs {
+  const key = JSON.stringify([
+    assetDir,
+    image.model,
+    image.aspectRatio,
+    image.resolution,
+    image.promptOptimizer,
+    image.candidates ?? 1,
+  ]);
+  const cached = renderGraphCache.get(key);
+  if (cached) {
+    return cached;
+  }
+
+  const { width, height } = imageDimensions(image);
+  console.log(
+    `🔧 Building render graphs for ${image.model} at ${width}x${height}...`
+  );
+
+  const imageConfig: ComicImageGeneratorConfig = {
+    imageProvider: getConfiguredImageProviderName(),
+    assetDir,
+    imageModel: image.model,
+    width,
+    height,
+    promptOptimizer: image.promptOptimizer,
+    candidates: image.candidates,
+  };
+
+  // Render stage: Script Safety → Image Generation → Page Compositing
+  const scriptSafetyNode = new ComicScriptSafetyNode();
+  const imageGeneratorNode = new ComicImageGeneratorNode({
+    executionConfig: imageConfig,
+  });
+  const pageCompositorNode = new ComicPageCompositorNode({
+    executionConfig: { assetDir },
+  });
+
+  const render = new GraphBuilder({
+    id: cachedGraphId('comic_renderer', renderGraphCache),
+    apiKey: process.env.INWORLD_API_KEY!,
+  })
+    .addNode(scriptSafetyNode)
+    .addNode(imageGeneratorNode)
+    .addNode(pageCompositorNode)
+    .addEdge(scriptSafetyNode, imageGeneratorNode)
+    .addEdge(imageGeneratorNode, pageCompositorNode)
+    .setStartNode(scriptSafetyNode)
+    .setEndNode(pageCompositorNode)
+    .build();
+
+  // Edited panels are checked like a new script
+  const panelSafetyNode = new ComicScriptSafetyNode();
+  const panelImageNode = new ComicImageGeneratorNode({
+    executionConfig: imageConfig,
+  });
+
+  const panelImage = new GraphBuilder({
+    id: cachedGraphId('comic_panel_regenerator', renderGraphCache),
+    apiKey: process.env.INWORLD_API_KEY!,
+  })
+    .addNode(panelSafetyNode)
+    .addNode(panelImageNode)
+    .addEdge(panelSafetyNode, panelImageNode)
+    .setStartNode(panelSafetyNode)
+    .setEndNode(panelImageNode)
+    .build();
+
+  const graphs = { render, panelImage };
+  renderGraphCache.set(key, graphs);
+  return graphs;
+}
+
+export interface ComicGraphRunOptions {
+  signal?: AbortSignal; // Cancels the graph execution when aborted
+  fresh?: boolean; // Generate everything anew instead of reusing cached work
+}
+
+// Run a graph on behalf of a comic request and return its output
+export async function runComicGraph<T>(
+  graph: Graph,
+  input: unknown,
+  requestId: string,
+  { signal, fresh = false }: ComicGraphRunOptions = {}
+): Promise<T> {
+  signal?.throwIfAborted();
+
+  const executionId = uuidv4();
+  const executionResult = await graph.start(input, {
+    executionId,
+    dataStoreContent: {
+      [COMIC_REQUEST_ID_DATASTORE_KEY]: requestId,
+      [COMIC_FRESH_DATASTORE_KEY]: fresh,
+    },
+  });
+
+  const cancelExecution = () => {
+    graph
+      .cancelExecution(executionId)
+      .catch((error) =>
+        console.error(`❌ Failed to cancel execution ${executionId}:`, error)
+      );
+  };
+  signal?.addEventListener('abort', cancelExecution, { once: true });
+
+  try {
+    const readFirstOutput = async () => {
+      for await (const output of executionResult.outputStream) {
+        if (output.isGraphError()) {
+          const message = output.data.message;
+          throw parseContentRejection(message) ?? new Error(message);
+        }
+        return output.data as T;
+      }
+
+      throw new Error('No valid result received from graph execution');
+    };
+
+    return await abortable(readFirstOutput(), signal);
+  } finally {
+    signal?.removeEventListener('abort', cancelExecution);
+  }
+}
+
+// Scripts written for identical inputs and LLM settings, and the ones being
+// written right now
+const scriptCache = new TtlCache<ComicStoryOutput>();
+const scriptExecutions = new InFlightExecutions<ComicStoryOutput>();
+
+// Script stage: reuse a script written for the same input and LLM settings
+// unless fresh is set, or else ask the LLM for one
+export async function writeComicScript(
+  llm: LLMOptions,
+  input: ComicStoryInput,
+  requestId: string,
+  { signal, fresh = false }: ComicGraphRunOptions = {}
+): Promise<ComicStoryOutput> {
+  if (!isComicCacheEnabled()) {
+    return generateComicScript(llm, input, requestId, signal);
+  }
+
+  const key = cacheKey({ llm, input: normalizeStoryInput(input) });
+
+  if (fresh) {
+    const written = await generateComicScript(llm, input, requestId, signal);
+    scriptCache.set(key, structuredClone(written));
+    return written;
+  }
+
+  let script = scriptCache.get(key);
+  if (script) {
+    console.log(`♻️  Reusing a cached script for request ${requestId}`);
+  } else {
+    const { value, shared } = await scriptExecutions.run(
+      key,
+      async (sharedSignal) => {
+        const written = await generateComicScript(
+          llm,
+          input,
+          requestId,
+          sharedSignal
+        );
+        scriptCache.set(key, written);
+        return written;
+      },
+      signal
+    );
+    if (!shared) {
+      return structuredClone(value);
+    }
+    console.log(
+      `♻️  Request ${requestId} shares a script being written for the same input`
+    );
+    script = value;
+  }
+
+  // Scripts written for another request are reported as if written for this
+  // one. The cached script is only ever handed out as a copy.
+  const copy = structuredClone(script);
+  comicEvents.publish(requestId, { type: 'cache_hit', kind: 'script' });
+  comicEvents.publish(requestId, { type: 'story_parsed', story: copy });
+  return copy;
+}
+
+// Ask the LLM for a script, sending it back with the validation errors until
+// it is usable. Fails rather than inventing a script.
+async function generateComicScript(
+  llm: LLMOptions,
+  input: ComicStoryInput,
+  requestId: string,
+  signal?: AbortSignal
+): Promise<ComicStoryOutput> {
+  const graphs = getScriptGraphs(llm);
+  const llmLimiter = getProviderLimiter(llm.provider);
+
+  let result = await llmLimiter.run(
+    () =>
+      runComicGraph<ComicStoryParseResult>(graphs.script, input, requestId, {
+        signal,
+      }),
+    signal
+  );
+
+  for (let round = 1; !result.valid && round <= SCRIPT_REPAIR_ROUNDS; round++) {
+    console.log(
+      `🔧 Repairing comic script for request ${requestId} (round ${round}/${SCRIPT_REPAIR_ROUNDS})`
+    );
+    comicEvents.publish(requestId, {
+      type: 'story_repairing',
+      round,
+      maxRounds: SCRIPT_REPAIR_ROUNDS,
+      errors: result.errors,
+    });
+
+    const repairInput: ComicStoryRepairInput = {
+      story: input,
+      invalidResponse: result.rawResponse,
+      errors: result.errors,
+    };
+    result = await llmLimiter.run(
+      () =>
+        runComicGraph<ComicStoryParseResult>(
+          graphs.repair,
+          repairInput,
+          requestId,
+          { signal }
+        ),
+      signal
+    );
+  }
+
+  if (!result.valid) {
+    throw new Error(
+      `The story generator did not return a valid comic script: ${result.errors.join('; ')}`
+    );
+  }
+
+  return result.story;
+}
+
+// The parts of a story input that change the script, with defaults filled in
+// and text normalized
+function normalizeStoryInput(input: ComicStoryInput) {
+  return {
+    // Names are kept as written, since scripts repeat them
+    cast: input.cast.map((member) => ({
+      name: member.name.trim(),
+      description: normalizeCacheText(member.description),
+      role: normalizeCacheText(member.role),
+    })),
+    artStyle: normalizeCacheText(input.artStyle),
+    theme: normalizeCacheText(input.theme),
+    panelCount: input.panelCount ?? DEFAULT_PANEL_COUNT,
+    layout: input.layout ?? DEFAULT_LAYOUT_TEMPLATE,
+    characters: input.characters ?? [],
+    series: input.series,
+    language: input.language ?? DEFAULT_COMIC_LANGUAGE,
+  };
+}
+
+// Translate a finished comic's title and dialogue with the LLM. Nothing is
+// cached, so asking again gives a fresh translation.
+export async function translateComicText(
+  llm: LLMOptions,
+  input: ComicTranslationInput,
+  requestId: string
+): Promise<ComicTranslation> {
+  return getProviderLimiter(llm.provider).run(() =>
+    runComicGraph<ComicTranslation>(getTranslationGraph(llm), input, requestId)
+  );
+}
@@ -1,99 +1,334 @@
-import axios from 'axios';
 import { CustomNode, ProcessContext } from '@inworld/runtime/graph';
-import { ComicStoryOutput } from './comic_story_node';
+import {
+  ComicCharacterState,
+  ComicPanel,
+  ComicStoryOutput,
+} from './comic_story_node';
+import { ComicLayout } from './comic_layout';
+import {
+  AssetStore,
+  panelCandidateImageUrl,
+  panelImageUrl,
+} from './asset_store';
+import { fetchImage } from './image_fetch';
+import { comicEvents, describeError } from './comic_events';
+import { comicJobs } from './comic_job_queue';
+import {
+  cacheKey,
+  InFlightExecutions,
+  isComicCacheEnabled,
+  TtlCache,
+} from './comic_cache';
+import { getProviderLimiter, sleep } from './concurrency';
+import {
+  characterAppearancePrompt,
+  ComicCharacter,
+  findPanelCharacters,
+} from './comic_characters';
+import { ComicCastMember } from './comic_cast';
+import { ComicTranslation } from './comic_translation_node';
+import { shotTypePrompt } from './comic_shot_types';
+import {
+  createImageProvider,
+  getConfiguredImageProviderName,
+  ImageProvider,
+  ImageProviderName,
+} from './image_provider';
+
+// Finished comic page composited from all panels
+export interface ComicPageImage {
+  imageUrl: string;
+  width: number;
+  height: number;
+  assetId?: string; // Set when stored in the local asset store
+}
+
+// An earlier version of a panel, kept when the panel is regenerated
+export interface ComicPanelVersion {
+  version: number;
+  dialogueText: string;
+  visualDescription: string;
+  imageUrl: string;
+  assetId?: string;
+  replacedAt: string; // ISO timestamp
+}
+
+// One of several images generated for a panel
+export interface ComicPanelCandidate {
+  imageUrl: string;
+  assetId?: string; // Set when stored in the local asset store
+}
+
+// A comic panel together with its generated image
+export interface ComicImagePanel extends ComicPanel {
+  imageUrl: string; // Empty when generation failed; the selected candidate
+  assetId?: string; // Set when stored in the local asset store
+  version?: number; // Starts at 1, incremented on every regeneration
+  previousVersions?: ComicPanelVersion[];
+  candidates?: ComicPanelCandidate[]; // Set when several images were generated
+  selectedCandidate?: number; // Starts at 1; the candidate used by the panel
+}
 
 // Output interface for generated comic images
 export interface ComicImageOutput {
   title: string;
-  panels: Array<{
-    panelNumber: number;
-    dialogueText: string;
-    visualDescription: string;
-    imageUrl: string;
-  }>;
+  panels: ComicImagePanel[];
   artStyle: string;
+  layout: ComicLayout;
+  cast?: ComicCastMember[];
+  characters?: ComicCharacter[]; // Saved characters kept consistent across panels
+  characterStates?: ComicCharacterState[]; // Carried into the next issue of a series
+  language?: string; // Language of the title and dialogue; unset in older comics
+  page?: ComicPageImage; // Set once the page has been composited
+  translations?: ComicTranslation[]; // Dialogue sets in other languages
+}
+
+// Execution config for ComicImageGeneratorNode
+export interface ComicImageGeneratorConfig {
+  imageProvider?: ImageProviderName; // Defaults to the IMAGE_PROVIDER env variable
+  assetDir?: string; // Local asset directory; provider URLs are kept if unset
+  imageModel?: string; // Provider default when unset
+  width?: number; // Panel image size, 512x512 by default
+  height?: number;
+  promptOptimizer?: boolean;
+  candidates?: number; // Images generated per panel, 1 by default
 }
 
+// Datastore key holding the id of the comic request being generated, used to
+// build stable image URLs
+export const COMIC_REQUEST_ID_DATASTORE_KEY = 'comicRequestId';
+
+// Datastore key set when the request asked not to reuse cached images
+export const COMIC_FRESH_DATASTORE_KEY = 'comicFresh';
+
+// Asset ids of the candidate images generated for identical image requests,
+// and the panel images being generated right now
+const panelImageCache = new TtlCache<string[]>();
+const panelImageExecutions = new InFlightExecutions<ComicPanelCandidate[]>();
+
 // Custom Comic Image Generation node
 export class ComicImageGeneratorNode extends CustomNode {
   async process(
-    _context: ProcessContext,
+    context: ProcessContext,
     input: ComicStoryOutput
   ): Promise<ComicImageOutput> {
     try {
-      console.log(`🎨 Generating 4 comic panel images for: "${input.title}"`);
+      console.log(
+        `🎨 Generating ${input.panels.length} comic panel images for: "${input.title}"`
+      );
 
-      const apiKey = process.env.MINIMAX_API_KEY;
-      if (!apiKey) {
-        throw new Error('MINIMAX_API_KEY environment variable is required');
-      }
+      const {
+        imageProvider = getConfiguredImageProviderName(),
+        assetDir,
+        imageModel,
+        width = 512,
+        height = 512,
+        promptOptimizer,
+        candidates = 1,
+      } = context.getExecutionConfig<ComicImageGeneratorConfig>().properties;
+      const provider = createImageProvider(imageProvider);
+      const assetStore = assetDir ? new AssetStore(assetDir) : undefined;
+      const datastore = context.getDatastore();
+      const requestId = datastore.get(COMIC_REQUEST_ID_DATASTORE_KEY) as
+        | string
+        | undefined;
+      const fresh = datastore.get(COMIC_FRESH_DATASTORE_KEY) === true;
+      const signal = requestId ? comicJobs.signal(requestId) : undefined;
+      const providerLimiter = getProviderLimiter(provider.name);
 
-      const url = 'https://api.minimax.io/v1/image_generation';
-      const headers = {
-        Authorization: `Bearer ${apiKey}`,
-        'Content-Type': 'application/json',
-      };
+      comicEvents.publish(requestId, {
+        type: 'images_started',
+        panelCount: input.panels.length,
+      });
 
       // Generate all panel images in parallel
       const imagePromises = input.panels.map(async (panel) => {
         console.log(
-          `🖼️  Starting image generation for panel ${panel.panelNumber}...`
+          `🖼️  Starting image generation for panel ${panel.panelNumber} with ${provider.name}...`
         );
 
-        // Enhanced prompt for comic-style image generation
-        const enhancedPrompt = `${panel.visualDescription}, ${input.artStyle}, clean composition`;
+        // Enhanced prompt for comic-style image generation, led by the shot
+        // type. Saved characters in the panel are described the same way in
+        // every prompt.
+        const panelCharacters = findPanelCharacters(
+          panel,
+          input.characters ?? []
+        );
+        const characterNotes =
+          panelCharacters.length > 0
+            ? `, featuring ${characterAppearancePrompt(panelCharacters)}`
+            : '';
+        const shot = panel.shotType
+          ? `${shotTypePrompt(panel.shotType)}: `
+          : '';
+        const enhancedPrompt = `${shot}${panel.visualDescription}${characterNotes}, ${input.artStyle}, clean composition`;
+        const characterReference = await getCharacterReference(
+          provider,
+          panelCharacters,
+          assetStore
+        );
 
-        const payload = {
-          model: 'image-01',
+        const imageRequest = {
           prompt: enhancedPrompt,
-          width: 512,
-          height: 512,
-          response_format: 'url',
-          n: 1, // One image per panel
-          prompt_optimizer: true,
+          model: imageModel,
+          width,
+          height,
+          promptOptimizer,
+          count: candidates,
+          ...characterReference,
         };
 
+        // The panel shows the first candidate until another is selected
+        const completePanel = (
+          generated: ComicPanelCandidate[],
+          cached = false
+        ): ComicImagePanel => {
+          const stored = generated.map(({ imageUrl, assetId }, index) => ({
+            imageUrl:
+              assetId && requestId
+                ? panelCandidateImageUrl(
+                    requestId,
+                    panel.panelNumber,
+                    index + 1
+                  )
+                : imageUrl,
+            assetId,
+          }));
+          const [{ imageUrl, assetId }] = generated;
+          const storedImageUrl =
+            assetId && requestId
+              ? panelImageUrl(requestId, panel.panelNumber)
+              : imageUrl;
+          const choices =
+            stored.length > 1
+              ? { candidates: stored, selectedCandidate: 1 }
+              : undefined;
+
+          comicEvents.publish(requestId, {
+            type: 'panel_completed',
+            panelNumber: panel.panelNumber,
+            imageUrl: storedImageUrl,
+            assetId,
+            cached,
+            ...choices,
+          });
+
+          return { ...panel, imageUrl: storedImageUrl, assetId, ...choices };
+        };
+
+        // Only images kept in the asset store can be reused
+        const imageKey =
+          assetStore && isComicCacheEnabled()
+            ? cacheKey({ provider: provider.name, ...imageRequest })
+            : undefined;
+        const cachedAssetIds =
+          imageKey && !fresh ? panelImageCache.get(imageKey) : undefined;
+        if (
+          cachedAssetIds &&
+          (
+            await Promise.all(
+              cachedAssetIds.map((assetId) => assetStore!.resolvePath(assetId))
+            )
+          ).every(Boolean)
+        ) {
+          console.log(
+            `♻️  Reusing cached images for panel ${panel.panelNumber}`
+          );
+          comicEvents.publish(requestId, {
+            type: 'cache_hit',
+            kind: 'panel_image',
+            panelNumber: panel.panelNumber,
+          });
+          return completePanel(
+            cachedAssetIds.map((assetId) => ({ imageUrl: '', assetId })),
+            true
+          );
+        }
+
         const maxRetries = 3;
         let attempt = 0;
 
+        // One attempt at generating the candidate images, kept locally when
+        // there is an asset store since provider URLs expire
+        const generateImages = async (
+          attemptSignal?: AbortSignal
+        ): Promise<ComicPanelCandidate[]> => {
+          comicEvents.publish(requestId, {
+            type: 'panel_started',
+            panelNumber: panel.panelNumber,
+            attempt: attempt + 1,
+            maxRetries,
+          });
+
+          const images = await providerLimiter.run(
+            () =>
+              provider.generateImages({
+                ...imageRequest,
+                signal: attemptSignal,
+              }),
+            attemptSignal
+          );
+
+          console.log(
+            images.length > 1
+              ? `✅ Generated ${images.length} images for panel ${panel.panelNumber}`
+              : `✅ Generated image for panel ${panel.panelNumber}`
+          );
+
+          if (!assetStore) {
+            return images.map(({ imageUrl }) => ({ imageUrl }));
+          }
+
+          const stored = await Promise.all(
+            images.map(async ({ imageUrl }) => {
+              const { data } = await fetchImage(imageUrl);
+              return { imageUrl, assetId: await assetStore.putImage(data) };
+            })
+          );
+          console.log(
+            `💾 Stored image for panel ${panel.panelNumber} as asset ${stored.map(({ assetId }) => assetId).join(', ')}`
+          );
+
+          if (imageKey) {
+            panelImageCache.set(
+              imageKey,
+              stored.map(({ assetId }) => assetId)
+            );
+          }
+          return stored;
+        };
+
         while (attempt < maxRetries) {
           try {
-            const timeoutMs = 120000; // 2 minutes
             console.log(
               `🔄 Attempt ${attempt + 1}/${maxRetries} for panel ${panel.panelNumber}`
             );
 
-            const response = await axios.post(url, payload, {
-              headers,
-              timeout: timeoutMs,
-            });
-
-            if (!response.data || !response.data.base_resp) {
-              throw new Error(`Invalid response from MiniMax API`);
-            }
-
-            if (!response.data.data || !response.data.data.image_urls) {
-              throw new Error(
-                `No images received from MiniMax API. Status Code: ${response.data.base_resp.status_code}, Status Message: ${response.data.base_resp.status_msg}`
-              );
+            if (!imageKey || fresh) {
+              return completePanel(await generateImages(signal));
             }
 
-            const imageUrl = response.data.data.image_urls[0];
-            if (!imageUrl) {
-              throw new Error(
-                `No image URL received from MiniMax API. Status Code: ${response.data.base_resp.status_code}, Status Message: ${response.data.base_resp.status_msg}`
+            // Identical panels being drawn for other comics are shared
+            const { value, shared } = await panelImageExecutions.run(
+              imageKey,
+              generateImages,
+              signal
+            );
+            if (shared) {
+              console.log(
+                `♻️  Panel ${panel.panelNumber} shares an image being generated for the same prompt`
               );
+              comicEvents.publish(requestId, {
+                type: 'cache_hit',
+                kind: 'panel_image',
+                panelNumber: panel.panelNumber,
+              });
             }
-
-            console.log(`✅ Generated image for panel ${panel.panelNumber}`);
-
-            return {
-              panelNumber: panel.panelNumber,
-              dialogueText: panel.dialogueText,
-              visualDescription: panel.visualDescription,
-              imageUrl: imageUrl,
-            };
+            return completePanel(value, shared);
           } catch (panelError) {
+            // A cancelled or timed out comic is not retried
+            signal?.throwIfAborted();
+
             attempt++;
             console.error(
               `❌ Attempt ${attempt} failed for panel ${panel.panelNumber}:`,
@@ -104,27 +339,35 @@ export class ComicImageGeneratorNode extends CustomNode {
               console.error(
                 `❌ All ${maxRetries} attempts failed for panel ${panel.panelNumber}`
               );
+              comicEvents.publish(requestId, {
+                type: 'panel_failed',
+                panelNumber: panel.panelNumber,
+                error: describeError(panelError),
+              });
               break;
             } else {
               // Wait before retry with exponential backoff
               const delay = Math.min(1000 * Math.pow(2, attempt - 1), 10000); // Max 10 seconds
               console.log(`⏳ Waiting ${delay}ms before retry...`);
-              await new Promise((resolve) => setTimeout(resolve, delay));
+              comicEvents.publish(requestId, {
+                type: 'panel_retrying',
+                panelNumber: panel.panelNumber,
+                attempt,
+                delayMs: delay,
+                error: describeError(panelError),
+              });
+              await sleep(delay, signal);
             }
           }
         }
 
         // Return placeholder for failed panels after all retries
-        return {
-          panelNumber: panel.panelNumber,
-          dialogueText: panel.dialogueText,
-          visualDescription: panel.visualDescription,
-          imageUrl: '', // Empty URL indicates failure
-        };
+        return { ...panel, imageUrl: '' }; // Empty URL indicates failure
       });
 
       // Wait for all panels to complete (or fail)
       const panelResults = await Promise.allSettled(imagePromises);
+      signal?.throwIfAborted();
 
       // Extract results from Promise.allSettled
       const panels = panelResults.map((result, index) => {
@@ -133,9 +376,8 @@ export class ComicImageGeneratorNode extends CustomNode {
         } else {
           console.error(`Panel ${index + 1} promise rejected:`, result.reason);
           return {
+            ...input.panels[index],
             panelNumber: index + 1,
-            dialogueText: input.panels[index].dialogueText,
-            visualDescription: input.panels[index].visualDescription,
             imageUrl: '',
           };
         }
@@ -145,11 +387,16 @@ export class ComicImageGeneratorNode extends CustomNode {
         title: input.title || 'Untitled Comic',
         panels: panels,
         artStyle: input.artStyle,
+        layout: input.layout,
+        cast: input.cast,
+        characters: input.characters,
+        characterStates: input.characterStates,
+        language: input.language,
       };
 
       const successfulPanels = panels.filter((p) => p && p.imageUrl).length;
       console.log(
-        `🎉 Comic generation completed: ${successfulPanels}/4 panels generated successfully`
+        `🎉 Comic generation completed: ${successfulPanels}/${panels.length} panels generated successfully`
       );
 
       return result;
@@ -160,6 +407,33 @@ export class ComicImageGeneratorNode extends CustomNode {
   }
 }
 
+// Seed and reference image of the first character in a panel that has them,
+// limited to what the provider supports
+async function getCharacterReference(
+  provider: ImageProvider,
+  characters: ComicCharacter[],
+  assetStore?: AssetStore
+): Promise<{ seed?: number; referenceImageUrl?: string }> {
+  const reference: { seed?: number; referenceImageUrl?: string } = {};
+
+  const seed = characters.find((c) => c.seed !== undefined)?.seed;
+  if (provider.supportsSeed && seed !== undefined) {
+    reference.seed = seed;
+  }
+
+  const referenceImageAssetId = characters.find(
+    (c) => c.referenceImageAssetId
+  )?.referenceImageAssetId;
+  if (provider.supportsReferenceImage && referenceImageAssetId && assetStore) {
+    const image = await assetStore.getImage(referenceImageAssetId);
+    if (image) {
+      reference.referenceImageUrl = `data:image/png;base64,${image.toString('base64')}`;
+    }
+  }
+
+  return reference;
+}
+
 // Helper function to validate comic image output
 export function validateComicImageOutput(output: ComicImageOutput): {
   isValid: boolean;
@@ -176,8 +450,12 @@ export function validateComicImageOutput(output: ComicImageOutput): {
     return { isValid: false, errors };
   }
 
-  if (output.panels.length !== 4) {
-    errors.push(`Expected 4 panels, got ${output.panels.length}`);
+  if (!output.layout) {
+    errors.push('Missing panel layout');
+  } else if (output.panels.length !== output.layout.panelCount) {
+    errors.push(
+      `Expected ${output.layout.panelCount} panels, got ${output.panels.length}`
+    );
   }
 
   output.panels.forEach((panel, index) => {
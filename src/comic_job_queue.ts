@@ -0,0 +1,131 @@
+import { comicEvents } from './comic_events';
+
+// A unit of background work; it should stop promptly once signal is aborted
+export type ComicJobTask = (signal: AbortSignal) => Promise<void>;
+
+export interface ComicJobQueueOptions {
+  maxConcurrentJobs: number;
+  jobTimeoutMs: number; // Overall deadline per job, from when it starts
+}
+
+interface RunningJob {
+  controller: AbortController;
+  done: Promise<void>;
+}
+
+// FIFO queue for comic generation jobs with a global concurrency limit,
+// cancellation and a per-job deadline
+export class ComicJobQueue {
+  private readonly maxConcurrentJobs: number;
+  private readonly jobTimeoutMs: number;
+  private readonly waiting: Array<{ id: string; task: ComicJobTask }> = [];
+  private readonly running = new Map<string, RunningJob>();
+
+  constructor(options: ComicJobQueueOptions) {
+    this.maxConcurrentJobs = Math.max(1, options.maxConcurrentJobs);
+    this.jobTimeoutMs = options.jobTimeoutMs;
+  }
+
+  enqueue(id: string, task: ComicJobTask): void {
+    if (this.has(id)) {
+      throw new Error(`Comic job ${id} is already queued`);
+    }
+
+    this.waiting.push({ id, task });
+    this.startNextJobs();
+    this.publishPositions();
+  }
+
+  // Number of jobs waiting for a free slot
+  waitingCount(): number {
+    return this.waiting.length;
+  }
+
+  runningCount(): number {
+    return this.running.size;
+  }
+
+  has(id: string): boolean {
+    return this.running.has(id) || this.waiting.some((job) => job.id === id);
+  }
+
+  // 1-based position among waiting jobs, or undefined if not waiting
+  position(id: string): number | undefined {
+    const index = this.waiting.findIndex((job) => job.id === id);
+    return index === -1 ? undefined : index + 1;
+  }
+
+  // Abort signal of a running job, for work done outside the job's own code
+  // (e.g. graph nodes that only know the request id)
+  signal(id: string): AbortSignal | undefined {
+    return this.running.get(id)?.controller.signal;
+  }
+
+  // Cancel a waiting or running job. Resolves once a running job has
+  // stopped; returns false if there was no such job.
+  async cancel(id: string): Promise<boolean> {
+    const index = this.waiting.findIndex((job) => job.id === id);
+    if (index !== -1) {
+      this.waiting.splice(index, 1);
+      this.publishPositions();
+      return true;
+    }
+
+    const job = this.running.get(id);
+    if (!job) {
+      return false;
+    }
+
+    job.controller.abort(new Error('Comic generation was cancelled'));
+    await job.done;
+    return true;
+  }
+
+  private startNextJobs() {
+    while (
+      this.running.size < this.maxConcurrentJobs &&
+      this.waiting.length > 0
+    ) {
+      const { id, task } = this.waiting.shift()!;
+      this.start(id, task);
+    }
+  }
+
+  private start(id: string, task: ComicJobTask) {
+    const controller = new AbortController();
+    const timeout = setTimeout(() => {
+      controller.abort(
+        new Error(
+          `Comic generation timed out after ${Math.round(this.jobTimeoutMs / 1000)} seconds`
+        )
+      );
+    }, this.jobTimeoutMs);
+
+    const done = Promise.resolve()
+      .then(() => task(controller.signal))
+      .catch((error) => {
+        console.error(`❌ Comic job ${id} failed:`, error);
+      })
+      .finally(() => {
+        clearTimeout(timeout);
+        this.running.delete(id);
+        this.startNextJobs();
+        this.publishPositions();
+      });
+
+    this.running.set(id, { controller, done });
+  }
+
+  // Let every waiting job's subscribers know where it is in the queue
+  private publishPositions() {
+    this.waiting.forEach((job, index) => {
+      comicEvents.publish(job.id, { type: 'queued', position: index + 1 });
+    });
+  }
+}
+
+// Shared queue for all comic generation work
+export const comicJobs = new ComicJobQueue({
+  maxConcurrentJobs: Number(process.env.COMIC_MAX_CONCURRENT_JOBS ?? 2),
+  jobTimeoutMs: Number(process.env.COMIC_JOB_TIMEOUT_SECONDS ?? 600) * 1000,
+});
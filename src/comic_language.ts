@@ -0,0 +1,35 @@
+// Language comics are written in unless the request asks for another
+export const DEFAULT_COMIC_LANGUAGE = 'en';
+
+export const INVALID_LANGUAGE_ERROR =
+  'language must be a language tag such as "es", "ja" or "pt-BR"';
+
+const languageNames = new Intl.DisplayNames(['en'], {
+  type: 'language',
+  fallback: 'none',
+});
+
+// Canonical BCP 47 tag for a requested language, such as "pt-BR" for
+// "pt-br". Returns undefined for malformed tags and unknown languages.
+export function normalizeLanguage(value: unknown): string | undefined {
+  if (typeof value !== 'string' || value.trim().length === 0) {
+    return undefined;
+  }
+
+  let language: string;
+  try {
+    [language] = Intl.getCanonicalLocales(value.trim());
+  } catch {
+    return undefined;
+  }
+  return languageNames.of(language) ? language : undefined;
+}
+
+// English name of a language tag, as used in prompts
+export function languageName(language: string): string {
+  return languageNames.of(language) ?? language;
+}
+
+export function isDefaultLanguage(language: string | undefined): boolean {
+  return (language ?? DEFAULT_COMIC_LANGUAGE) === DEFAULT_COMIC_LANGUAGE;
+}
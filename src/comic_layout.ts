@@ -0,0 +1,131 @@
+// Layout templates for arranging comic panels on a page:
+// - strip: all panels side by side in a single row
+// - grid_2x2: two panels per row (a 2x2 grid for 4 panels)
+// - page_3x3: three panels per row (a 3x3 page for 9 panels)
+// - splash_insets: a large first panel across the top, smaller insets below
+export const COMIC_LAYOUT_TEMPLATES = [
+  'strip',
+  'grid_2x2',
+  'page_3x3',
+  'splash_insets',
+] as const;
+
+export type ComicLayoutTemplate = (typeof COMIC_LAYOUT_TEMPLATES)[number];
+
+export const MIN_PANEL_COUNT = 1;
+export const MAX_PANEL_COUNT = 12;
+export const DEFAULT_PANEL_COUNT = 4;
+export const DEFAULT_LAYOUT_TEMPLATE: ComicLayoutTemplate = 'grid_2x2';
+
+// Position of a panel on the layout grid (1-based, like CSS grid lines)
+export interface ComicPanelPlacement {
+  panelNumber: number;
+  column: number;
+  row: number;
+  columnSpan: number;
+  rowSpan: number;
+}
+
+export interface ComicLayout {
+  template: ComicLayoutTemplate;
+  panelCount: number;
+  columns: number;
+  rows: number;
+  placements: ComicPanelPlacement[];
+}
+
+export function isComicLayoutTemplate(
+  value: unknown
+): value is ComicLayoutTemplate {
+  return (
+    typeof value === 'string' &&
+    (COMIC_LAYOUT_TEMPLATES as readonly string[]).includes(value)
+  );
+}
+
+export function isValidPanelCount(value: unknown): value is number {
+  return (
+    typeof value === 'number' &&
+    Number.isInteger(value) &&
+    value >= MIN_PANEL_COUNT &&
+    value <= MAX_PANEL_COUNT
+  );
+}
+
+// Compute the grid placement of every panel for a template and panel count
+export function createComicLayout(
+  template: ComicLayoutTemplate = DEFAULT_LAYOUT_TEMPLATE,
+  panelCount: number = DEFAULT_PANEL_COUNT
+): ComicLayout {
+  if (!isValidPanelCount(panelCount)) {
+    throw new Error(
+      `Panel count must be an integer between ${MIN_PANEL_COUNT} and ${MAX_PANEL_COUNT}, got ${panelCount}`
+    );
+  }
+
+  if (template === 'splash_insets') {
+    return createSplashLayout(panelCount);
+  }
+
+  const columnsPerRow = { strip: panelCount, grid_2x2: 2, page_3x3: 3 };
+  const columns = Math.min(columnsPerRow[template], panelCount);
+  const placements = Array.from({ length: panelCount }, (_, index) => ({
+    panelNumber: index + 1,
+    column: (index % columns) + 1,
+    row: Math.floor(index / columns) + 1,
+    columnSpan: 1,
+    rowSpan: 1,
+  }));
+
+  return {
+    template,
+    panelCount,
+    columns,
+    rows: Math.ceil(panelCount / columns),
+    placements,
+  };
+}
+
+function createSplashLayout(panelCount: number): ComicLayout {
+  const insetCount = panelCount - 1;
+  const columns = Math.max(1, Math.min(3, insetCount));
+  const splashRows = 2;
+
+  const placements: ComicPanelPlacement[] = [
+    { panelNumber: 1, column: 1, row: 1, columnSpan: columns, rowSpan: 2 },
+  ];
+
+  for (let index = 0; index < insetCount; index++) {
+    placements.push({
+      panelNumber: index + 2,
+      column: (index % columns) + 1,
+      row: splashRows + Math.floor(index / columns) + 1,
+      columnSpan: 1,
+      rowSpan: 1,
+    });
+  }
+
+  return {
+    template: 'splash_insets',
+    panelCount,
+    columns,
+    rows: splashRows + Math.ceil(insetCount / columns),
+    placements,
+  };
+}
+
+// Human readable description of the layout, used in the story prompt
+export function describeComicLayout(layout: ComicLayout): string {
+  switch (layout.template) {
+    case 'strip':
+      return `a single horizontal strip of ${layout.panelCount} panel(s)`;
+    case 'grid_2x2':
+      return `a grid with 2 panels per row (${layout.rows} row(s))`;
+    case 'page_3x3':
+      return `a full page with 3 panels per row (${layout.rows} row(s))`;
+    case 'splash_insets':
+      return layout.panelCount === 1
+        ? 'a single large splash panel'
+        : `a large splash panel (panel 1) followed by ${layout.panelCount - 1} smaller inset panel(s)`;
+  }
+}
@@ -0,0 +1,293 @@
+import crypto from 'crypto';
+import fs from 'fs/promises';
+import path from 'path';
+import { ComicStoryInput } from './comic_story_node';
+import { parseComicCast } from './comic_cast';
+import { INVALID_LANGUAGE_ERROR, normalizeLanguage } from './comic_language';
+import {
+  COMIC_LAYOUT_TEMPLATES,
+  DEFAULT_LAYOUT_TEMPLATE,
+  DEFAULT_PANEL_COUNT,
+  isComicLayoutTemplate,
+  isValidPanelCount,
+  MAX_PANEL_COUNT,
+  MIN_PANEL_COUNT,
+} from './comic_layout';
+import {
+  ComicGenerationOptions,
+  ModelsConfig,
+  resolveGenerationOptions,
+} from './generation_options';
+
+// One comic to generate in a batch
+export interface ComicManifestRow {
+  id: string; // Output directory name, stable across runs so batches can resume
+  rowNumber: number; // 1-based position in the manifest, for error reports
+  input: ComicStoryInput;
+  options: ComicGenerationOptions;
+}
+
+// CSV columns that hold numbers or booleans rather than text
+const NUMBER_COLUMNS = [
+  'panelCount',
+  'llm.temperature',
+  'image.resolution',
+  'image.candidates',
+];
+const BOOLEAN_COLUMNS = ['image.promptOptimizer'];
+
+const UNSAFE_FIELD_NAMES = ['__proto__', 'prototype', 'constructor'];
+
+const ROW_ID_PATTERN = /^[A-Za-z0-9][A-Za-z0-9._-]*$/;
+
+// Read a manifest of comics from a .json file (an array of objects) or a .csv
+// file (a header row, then one comic per row). Throws with every problem
+// found, so a manifest can be fixed before anything is generated.
+export async function readComicManifest(
+  filePath: string,
+  config: ModelsConfig
+): Promise<ComicManifestRow[]> {
+  // Spreadsheet programs often start CSV files with a byte order mark
+  const content = (await fs.readFile(filePath, 'utf8')).replace(/^\uFEFF/, '');
+  const records =
+    path.extname(filePath).toLowerCase() === '.csv'
+      ? parseCsvRecords(content)
+      : parseJsonRecords(content);
+
+  const rows: ComicManifestRow[] = [];
+  const errors: string[] = [];
+  const ids = new Set<string>();
+
+  for (const [index, record] of records.entries()) {
+    const rowNumber = index + 1;
+    const row = await parseManifestRow(record, rowNumber, config);
+    if (typeof row === 'string') {
+      errors.push(`Row ${rowNumber}: ${row}`);
+    } else if (ids.has(row.id)) {
+      errors.push(`Row ${rowNumber}: duplicate id "${row.id}"`);
+    } else {
+      ids.add(row.id);
+      rows.push(row);
+    }
+  }
+
+  if (errors.length > 0) {
+    throw new Error(`Invalid manifest ${filePath}:\n${errors.join('\n')}`);
+  }
+
+  return rows;
+}
+
+// Validate one manifest entry the same way POST /api/generate-comic does,
+// except that saved characters belong to API users and cannot be used.
+// Returns an error message when it is invalid.
+async function parseManifestRow(
+  record: Record<string, unknown>,
+  rowNumber: number,
+  config: ModelsConfig
+): Promise<ComicManifestRow | string> {
+  const {
+    id,
+    artStyle,
+    theme,
+    panelCount = DEFAULT_PANEL_COUNT,
+    layout = DEFAULT_LAYOUT_TEMPLATE,
+    language,
+  } = record;
+
+  const parsedCast = await parseComicCast(record);
+  if (typeof parsedCast === 'string') {
+    return parsedCast;
+  }
+  if (typeof artStyle !== 'string' || artStyle.trim().length === 0) {
+    return 'artStyle is required';
+  }
+  if (theme !== undefined && typeof theme !== 'string') {
+    return 'theme must be a string';
+  }
+  if (!isValidPanelCount(panelCount)) {
+    return `panelCount must be an integer between ${MIN_PANEL_COUNT} and ${MAX_PANEL_COUNT}`;
+  }
+  if (!isComicLayoutTemplate(layout)) {
+    return `layout must be one of: ${COMIC_LAYOUT_TEMPLATES.join(', ')}`;
+  }
+  // Empty CSV cells leave the language unset
+  const dialogueLanguage =
+    language === undefined || language === ''
+      ? undefined
+      : normalizeLanguage(language);
+  if (language !== undefined && language !== '' && !dialogueLanguage) {
+    return INVALID_LANGUAGE_ERROR;
+  }
+  if (
+    id !== undefined &&
+    (typeof id !== 'string' || !ROW_ID_PATTERN.test(id))
+  ) {
+    return 'id may only contain letters, digits, ".", "_" and "-"';
+  }
+
+  const options = resolveGenerationOptions(record, config);
+  if (typeof options === 'string') {
+    return options;
+  }
+
+  const input: ComicStoryInput = {
+    cast: parsedCast.cast,
+    artStyle: artStyle.trim(),
+    theme: theme?.trim() || undefined,
+    panelCount,
+    layout,
+    language: dialogueLanguage,
+  };
+
+  return {
+    id: id ?? `comic-${contentHash({ input, options })}`,
+    rowNumber,
+    input,
+    options,
+  };
+}
+
+// Rows without an id are named after their content, so the same row maps to
+// the same output directory on every run
+function contentHash(value: unknown): string {
+  return crypto
+    .createHash('sha256')
+    .update(JSON.stringify(value))
+    .digest('hex')
+    .slice(0, 12);
+}
+
+function parseJsonRecords(content: string): Record<string, unknown>[] {
+  const records: unknown = JSON.parse(content);
+  if (
+    !Array.isArray(records) ||
+    !records.every(
+      (record) =>
+        typeof record === 'object' && record !== null && !Array.isArray(record)
+    )
+  ) {
+    throw new Error('A JSON manifest must be an array of objects');
+  }
+  return records;
+}
+
+// CSV records keyed by the header row. Empty cells are left out, dotted
+// headers such as "llm.model" become nested fields, numbered ones such as
+// "characters.1.name" become lists, and numeric and boolean columns are
+// converted.
+function parseCsvRecords(content: string): Record<string, unknown>[] {
+  const [header, ...lines] = parseCsv(content).filter((cells) =>
+    cells.some((cell) => cell.trim().length > 0)
+  );
+  if (!header) {
+    return [];
+  }
+
+  // Dotted headers become nested fields, so these would reach the
+  // prototypes of the records instead
+  const unsafe = header.find((column) =>
+    column
+      .trim()
+      .split('.')
+      .some((field) => UNSAFE_FIELD_NAMES.includes(field))
+  );
+  if (unsafe) {
+    throw new Error(`CSV column "${unsafe.trim()}" is not allowed`);
+  }
+
+  return lines.map((cells) => {
+    const record: Record<string, unknown> = {};
+
+    header.forEach((column, index) => {
+      const name = column.trim();
+      const cell = cells[index]?.trim() ?? '';
+      if (!name || cell.length === 0) {
+        return;
+      }
+
+      let value: unknown = cell;
+      if (NUMBER_COLUMNS.includes(name) && !Number.isNaN(Number(cell))) {
+        value = Number(cell);
+      } else if (
+        BOOLEAN_COLUMNS.includes(name) &&
+        /^(true|false)$/i.test(cell)
+      ) {
+        value = cell.toLowerCase() === 'true';
+      }
+
+      const fields = name.split('.');
+      let target = record;
+      for (const field of fields.slice(0, -1)) {
+        target = (target[field] ??= {}) as Record<string, unknown>;
+      }
+      target[fields[fields.length - 1]] = value;
+    });
+
+    return numberedFieldsToLists(record) as Record<string, unknown>;
+  });
+}
+
+// Objects whose fields are all numbers, built from columns such as
+// "characters.1.name", turned into lists in the order of their numbers
+function numberedFieldsToLists(value: unknown): unknown {
+  if (typeof value !== 'object' || value === null) {
+    return value;
+  }
+
+  const entries = Object.entries(value).map(
+    ([field, nested]) => [field, numberedFieldsToLists(nested)] as const
+  );
+  if (entries.length > 0 && entries.every(([field]) => /^\d+$/.test(field))) {
+    return entries
+      .sort(([a], [b]) => Number(a) - Number(b))
+      .map(([, nested]) => nested);
+  }
+  return Object.fromEntries(entries);
+}
+
+// Split CSV text into rows of cells (RFC 4180: quoted cells may contain
+// commas, newlines and doubled quotes)
+function parseCsv(content: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let quoted = false;
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+
+    if (quoted) {
+      if (char === '"' && content[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && content[i + 1] === '\n') {
+        i++;
+      }
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+
+  if (cell.length > 0 || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+
+  return rows;
+}
@@ -0,0 +1,123 @@
+// Minimal Prometheus text-format metrics, kept in process memory
+
+type Labels = Record<string, string>;
+
+interface Metric {
+  render(): string[];
+}
+
+// Label set rendered as {a="1",b="2"}, with values escaped
+function formatLabels(labels: Labels): string {
+  const entries = Object.entries(labels);
+  if (entries.length === 0) {
+    return '';
+  }
+  const pairs = entries.map(
+    ([name, value]) =>
+      `${name}="${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n')}"`
+  );
+  return `{${pairs.join(',')}}`;
+}
+
+// Value that only goes up, per label set
+export class Counter implements Metric {
+  private readonly name: string;
+  private readonly help: string;
+  private readonly values = new Map<string, number>();
+
+  constructor(name: string, help: string) {
+    this.name = name;
+    this.help = help;
+  }
+
+  inc(labels: Labels = {}, value = 1) {
+    const key = formatLabels(labels);
+    this.values.set(key, (this.values.get(key) ?? 0) + value);
+  }
+
+  render(): string[] {
+    return [
+      `# HELP ${this.name} ${this.help}`,
+      `# TYPE ${this.name} counter`,
+      ...Array.from(
+        this.values,
+        ([labels, value]) => `${this.name}${labels} ${value}`
+      ),
+    ];
+  }
+}
+
+// Current values read when metrics are scraped
+export class Gauge implements Metric {
+  private readonly name: string;
+  private readonly help: string;
+  private readonly collect: () => Array<{ labels?: Labels; value: number }>;
+
+  constructor(
+    name: string,
+    help: string,
+    collect: () => Array<{ labels?: Labels; value: number }>
+  ) {
+    this.name = name;
+    this.help = help;
+    this.collect = collect;
+  }
+
+  render(): string[] {
+    return [
+      `# HELP ${this.name} ${this.help}`,
+      `# TYPE ${this.name} gauge`,
+      ...this.collect().map(
+        ({ labels = {}, value }) =>
+          `${this.name}${formatLabels(labels)} ${value}`
+      ),
+    ];
+  }
+}
+
+// Sum and count of observed values, per label set (a histogram without
+// buckets)
+export class Summary implements Metric {
+  private readonly name: string;
+  private readonly help: string;
+  private readonly values = new Map<string, { sum: number; count: number }>();
+
+  constructor(name: string, help: string) {
+    this.name = name;
+    this.help = help;
+  }
+
+  observe(labels: Labels, value: number) {
+    const key = formatLabels(labels);
+    const current = this.values.get(key) ?? { sum: 0, count: 0 };
+    this.values.set(key, {
+      sum: current.sum + value,
+      count: current.count + 1,
+    });
+  }
+
+  render(): string[] {
+    return [
+      `# HELP ${this.name} ${this.help}`,
+      `# TYPE ${this.name} summary`,
+      ...Array.from(this.values).flatMap(([labels, { sum, count }]) => [
+        `${this.name}_sum${labels} ${sum}`,
+        `${this.name}_count${labels} ${count}`,
+      ]),
+    ];
+  }
+}
+
+// A set of metrics rendered together for a /metrics endpoint
+export class MetricsRegistry {
+  private readonly metrics: Metric[] = [];
+
+  register<T extends Metric>(metric: T): T {
+    this.metrics.push(metric);
+    return metric;
+  }
+
+  render(): string {
+    return `${this.metrics.flatMap((metric) => metric.render()).join('\n')}\n`;
+  }
+}
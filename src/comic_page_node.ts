@@ -0,0 +1,456 @@
+import sharp from 'sharp';
+import { CustomNode, ProcessContext } from '@inworld/runtime/graph';
+import {
+  COMIC_REQUEST_ID_DATASTORE_KEY,
+  ComicImageOutput,
+  ComicImagePanel,
+  ComicPageImage,
+} from './comic_image_node';
+import { ComicPanelPlacement } from './comic_layout';
+import {
+  AssetStore,
+  pageImageUrl,
+  translatedPageImageUrl,
+} from './asset_store';
+import { fetchImage } from './image_fetch';
+import { escapeXml, textWidth, wrapText } from './svg_text';
+
+// Page geometry, in pixels
+const PANEL_SIZE = 400;
+const GUTTER = 20;
+const MARGIN = 30;
+const BANNER_HEIGHT = 90;
+const BORDER_WIDTH = 4;
+
+const FONT_FAMILY = "'Comic Neue', 'Comic Sans MS', 'Bangers', sans-serif";
+const BUBBLE_FONT_SIZE = 18;
+const BUBBLE_LINE_HEIGHT = 22;
+const BUBBLE_PADDING = 12;
+const CHAR_WIDTH_RATIO = 0.62; // Approximate glyph width relative to font size
+const SPEAKER_FONT_SIZE = 12;
+const LETTERING_GAP = 8; // Between stacked captions and bubbles
+const BUBBLE_TAIL_HEIGHT = 24;
+const LETTERING_HEIGHT_RATIO = 0.8; // Part of the panel captions and bubbles may cover
+const SOUND_EFFECT_FONT_SIZE = 36;
+
+interface PanelRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// Execution config for ComicPageCompositorNode
+export interface ComicPageCompositorConfig {
+  assetDir?: string; // Local asset directory; the page is inlined if unset
+}
+
+// Custom node that composites the panel images into one lettered comic page
+export class ComicPageCompositorNode extends CustomNode {
+  async process(
+    context: ProcessContext,
+    input: ComicImageOutput
+  ): Promise<ComicImageOutput> {
+    try {
+      console.log(`📄 Compositing comic page for: "${input.title}"`);
+
+      const { assetDir } =
+        context.getExecutionConfig<ComicPageCompositorConfig>().properties;
+      const assetStore = assetDir ? new AssetStore(assetDir) : undefined;
+      const requestId = context
+        .getDatastore()
+        .get(COMIC_REQUEST_ID_DATASTORE_KEY) as string | undefined;
+
+      const page = await composeComicPage(input, assetStore, requestId);
+
+      console.log(
+        `✅ Comic page composited (${page.width}x${page.height}) for: "${input.title}"`
+      );
+
+      return { ...input, page };
+    } catch (error) {
+      // The individual panels are still usable without the finished page
+      console.error('❌ Comic page compositing error:', error);
+      return input;
+    }
+  }
+}
+
+// Render the comic page and store it in the asset store when available,
+// otherwise inline it as a data: URL. Pages lettered in a translation are
+// served under the translation's URL.
+export async function composeComicPage(
+  comic: ComicImageOutput,
+  assetStore?: AssetStore,
+  requestId?: string,
+  language?: string
+): Promise<ComicPageImage> {
+  const page = await renderComicPage(comic, assetStore);
+  return storePageImage(page, assetStore, requestId, language);
+}
+
+// Render the finished comic page as a PNG: title banner, panel images laid
+// out on the comic's grid with gutters, and lettered dialogue
+export async function renderComicPage(
+  comic: ComicImageOutput,
+  assetStore?: AssetStore
+): Promise<{ data: Buffer; width: number; height: number }> {
+  const { layout } = comic;
+  const width =
+    MARGIN * 2 + layout.columns * PANEL_SIZE + (layout.columns - 1) * GUTTER;
+  const height =
+    MARGIN * 2 +
+    BANNER_HEIGHT +
+    GUTTER +
+    layout.rows * PANEL_SIZE +
+    (layout.rows - 1) * GUTTER;
+
+  const panelRects = new Map<number, PanelRect>(
+    layout.placements.map((placement) => [
+      placement.panelNumber,
+      getPanelRect(placement),
+    ])
+  );
+
+  // Download and crop every panel image to its cell
+  const panelComposites = await Promise.all(
+    comic.panels.map(async (panel) => {
+      const rect = panelRects.get(panel.panelNumber);
+      if (!rect || !panel.imageUrl) {
+        return null;
+      }
+
+      try {
+        const data = await loadComicImage(panel, assetStore);
+        const resized = await sharp(data)
+          .resize(rect.width, rect.height, { fit: 'cover' })
+          .png()
+          .toBuffer();
+        return { input: resized, left: rect.x, top: rect.y };
+      } catch (error) {
+        console.error(
+          `❌ Failed to load image for panel ${panel.panelNumber}:`,
+          error
+        );
+        return null;
+      }
+    })
+  );
+
+  const loadedPanels = new Set(
+    comic.panels
+      .filter((_, index) => panelComposites[index] !== null)
+      .map((panel) => panel.panelNumber)
+  );
+
+  const overlay = renderPageOverlay(
+    comic,
+    width,
+    height,
+    panelRects,
+    loadedPanels
+  );
+
+  const data = await sharp({
+    create: {
+      width,
+      height,
+      channels: 4,
+      background: '#ffffff',
+    },
+  })
+    .composite([
+      ...panelComposites.filter((composite) => composite !== null),
+      { input: Buffer.from(overlay), left: 0, top: 0 },
+    ])
+    .png()
+    .toBuffer();
+
+  return { data, width, height };
+}
+
+// Prefer the local copy of a panel or page image, falling back to its URL
+export async function loadComicImage(
+  image: Pick<ComicImagePanel, 'imageUrl' | 'assetId'>,
+  assetStore?: AssetStore
+): Promise<Buffer> {
+  if (image.assetId && assetStore) {
+    const stored = await assetStore.getImage(image.assetId);
+    if (stored) {
+      return stored;
+    }
+  }
+
+  const { data } = await fetchImage(image.imageUrl);
+  return data;
+}
+
+async function storePageImage(
+  page: { data: Buffer; width: number; height: number },
+  assetStore?: AssetStore,
+  requestId?: string,
+  language?: string
+): Promise<ComicPageImage> {
+  const { width, height } = page;
+
+  if (assetStore && requestId) {
+    const assetId = await assetStore.putImage(page.data);
+    const imageUrl = language
+      ? translatedPageImageUrl(requestId, language)
+      : pageImageUrl(requestId);
+    return { imageUrl, width, height, assetId };
+  }
+
+  return {
+    imageUrl: `data:image/png;base64,${page.data.toString('base64')}`,
+    width,
+    height,
+  };
+}
+
+function getPanelRect(placement: ComicPanelPlacement): PanelRect {
+  return {
+    x: MARGIN + (placement.column - 1) * (PANEL_SIZE + GUTTER),
+    y:
+      MARGIN +
+      BANNER_HEIGHT +
+      GUTTER +
+      (placement.row - 1) * (PANEL_SIZE + GUTTER),
+    width:
+      placement.columnSpan * PANEL_SIZE + (placement.columnSpan - 1) * GUTTER,
+    height: placement.rowSpan * PANEL_SIZE + (placement.rowSpan - 1) * GUTTER,
+  };
+}
+
+// SVG drawn on top of the panel images: banner, borders and lettering
+function renderPageOverlay(
+  comic: ComicImageOutput,
+  width: number,
+  height: number,
+  panelRects: Map<number, PanelRect>,
+  loadedPanels: Set<number>
+): string {
+  const banner = renderTitleBanner(comic.title, width);
+
+  const panels = comic.panels
+    .map((panel) => {
+      const rect = panelRects.get(panel.panelNumber);
+      if (!rect) {
+        return '';
+      }
+
+      const missingImage = loadedPanels.has(panel.panelNumber)
+        ? ''
+        : `<rect x="${rect.x}" y="${rect.y}" width="${rect.width}" height="${rect.height}" fill="#eeeeee"/>
+<text x="${rect.x + rect.width / 2}" y="${rect.y + rect.height / 2}" text-anchor="middle" font-family="${FONT_FAMILY}" font-size="18" font-style="italic" fill="#777777">Image unavailable</text>`;
+
+      const border = `<rect x="${rect.x}" y="${rect.y}" width="${rect.width}" height="${rect.height}" fill="none" stroke="#111111" stroke-width="${BORDER_WIDTH}"/>`;
+
+      return missingImage + border + renderPanelLettering(panel, rect);
+    })
+    .join('\n');
+
+  return `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}">
+${banner}
+${panels}
+</svg>`;
+}
+
+function renderTitleBanner(title: string, pageWidth: number): string {
+  const x = MARGIN;
+  const y = MARGIN;
+  const bannerWidth = pageWidth - MARGIN * 2;
+  const fontSize = Math.min(
+    48,
+    Math.floor(bannerWidth / Math.max(textWidth(title) * CHAR_WIDTH_RATIO, 1))
+  );
+
+  return `<rect x="${x}" y="${y}" width="${bannerWidth}" height="${BANNER_HEIGHT}" fill="#ff6b6b" stroke="#111111" stroke-width="${BORDER_WIDTH}"/>
+<text x="${x + bannerWidth / 2}" y="${y + BANNER_HEIGHT / 2 + fontSize * 0.35}" text-anchor="middle" font-family="${FONT_FAMILY}" font-size="${fontSize}" font-weight="bold" letter-spacing="2" fill="#ffffff" stroke="#111111" stroke-width="1">${escapeXml(title)}</text>`;
+}
+
+// Narration-style text (e.g. "Narrator: ..." or "[Later that day]") goes in a
+// caption box, everything else in a speech bubble
+function isCaption(text: string): boolean {
+  return (
+    /^\s*(narrator|narration|caption)\s*:/i.test(text) ||
+    /^\s*\[.*\]\s*$/s.test(text)
+  );
+}
+
+// Letter a panel: caption boxes and speech bubbles stacked from the top, in
+// reading order, and sound effects across the bottom. Panels from older
+// scripts only have dialogueText, lettered as one bubble or caption.
+function renderPanelLettering(panel: ComicImagePanel, rect: PanelRect): string {
+  const top = rect.y + BORDER_WIDTH + 10;
+
+  if (!panel.dialogue) {
+    const text = panel.dialogueText.trim();
+    if (!text) {
+      return '';
+    }
+    // Scripts that list who is in a panel leave the speaker out for
+    // narration. Stored panels without the list may have it as null.
+    const caption =
+      (Array.isArray(panel.characters) && !panel.speaker) || isCaption(text);
+    const content = caption
+      ? text
+          .replace(/^\s*(narrator|narration|caption)\s*:\s*/i, '')
+          .replace(/^\s*\[(.*)\]\s*$/s, '$1')
+      : text;
+    return renderTextBox(content, rect, top, {
+      style: caption ? 'caption' : 'speech',
+    }).svg;
+  }
+
+  // Speakers are named when several characters talk in one panel
+  const speakers = new Set(panel.dialogue.map((line) => line.speaker));
+  const boxes: Array<{ text: string; options: TextBoxOptions }> = [
+    ...(panel.captions ?? []).map((text) => ({
+      text,
+      options: { style: 'caption' as const },
+    })),
+    ...panel.dialogue.map((line, index) => ({
+      text: line.text,
+      options: {
+        style: 'speech' as const,
+        align: index % 2 === 0 ? ('left' as const) : ('right' as const),
+        speaker: speakers.size > 1 ? line.speaker : undefined,
+      },
+    })),
+  ];
+
+  // Lettering that does not fit is left out rather than covering the art
+  const bottom = rect.y + rect.height * LETTERING_HEIGHT_RATIO;
+  const lettered: string[] = [];
+  let y = top;
+  for (const box of boxes) {
+    const rendered = renderTextBox(box.text, rect, y, {
+      ...box.options,
+      maxHeight: bottom - y,
+    });
+    if (!rendered.svg) {
+      break;
+    }
+    lettered.push(rendered.svg);
+    y += rendered.height + LETTERING_GAP;
+  }
+
+  return lettered.join('') + renderSoundEffects(panel.soundEffects ?? [], rect);
+}
+
+interface TextBoxOptions {
+  style: 'caption' | 'speech';
+  align?: 'left' | 'right'; // Side of the panel the box is placed on
+  speaker?: string; // Named above the text
+  maxHeight?: number; // Including a speech bubble's tail
+}
+
+// A caption box or speech bubble at the given height of a panel. Returns its
+// height, including a bubble's tail, or an empty SVG when not even one line
+// fits in maxHeight.
+function renderTextBox(
+  text: string,
+  rect: PanelRect,
+  boxY: number,
+  { style, align = 'left', speaker, maxHeight }: TextBoxOptions
+): { svg: string; height: number } {
+  const caption = style === 'caption';
+  const labelHeight = speaker ? SPEAKER_FONT_SIZE + 4 : 0;
+  const tailHeight = caption ? 0 : BUBBLE_TAIL_HEIGHT;
+
+  const maxBoxWidth = Math.floor(rect.width * 0.8);
+  const maxCharsPerLine = Math.max(
+    8,
+    Math.floor(
+      (maxBoxWidth - BUBBLE_PADDING * 2) / (BUBBLE_FONT_SIZE * CHAR_WIDTH_RATIO)
+    )
+  );
+  const maxLines = Math.floor(
+    (Math.min(rect.height * 0.4, maxHeight ?? Infinity) -
+      tailHeight -
+      labelHeight -
+      BUBBLE_PADDING * 2) /
+      BUBBLE_LINE_HEIGHT
+  );
+  if (maxLines < 1) {
+    return { svg: '', height: 0 };
+  }
+
+  const lines = wrapText(text, maxCharsPerLine);
+  if (lines.length > maxLines) {
+    lines.length = maxLines;
+    lines[maxLines - 1] = `${lines[maxLines - 1]}…`;
+  }
+
+  const longestLine = Math.max(
+    ...lines.map(textWidth),
+    speaker ? textWidth(speaker) * (SPEAKER_FONT_SIZE / BUBBLE_FONT_SIZE) : 0
+  );
+  const boxWidth = Math.min(
+    maxBoxWidth,
+    Math.ceil(longestLine * BUBBLE_FONT_SIZE * CHAR_WIDTH_RATIO) +
+      BUBBLE_PADDING * 2
+  );
+  const boxHeight =
+    labelHeight + lines.length * BUBBLE_LINE_HEIGHT + BUBBLE_PADDING * 2;
+  const boxX =
+    align === 'left'
+      ? rect.x + BORDER_WIDTH + 10
+      : rect.x + rect.width - BORDER_WIDTH - 10 - boxWidth;
+  const centerX = boxX + boxWidth / 2;
+
+  const label = speaker
+    ? `<text x="${centerX}" y="${boxY + BUBBLE_PADDING + SPEAKER_FONT_SIZE * 0.85}" text-anchor="middle" font-family="${FONT_FAMILY}" font-size="${SPEAKER_FONT_SIZE}" font-weight="bold" letter-spacing="1" fill="#c0392b">${escapeXml(speaker.toUpperCase())}</text>`
+    : '';
+  const tspans = lines
+    .map(
+      (line, i) =>
+        `<tspan x="${centerX}" dy="${i === 0 ? 0 : BUBBLE_LINE_HEIGHT}">${escapeXml(line)}</tspan>`
+    )
+    .join('');
+  const textElement = `<text x="${centerX}" y="${boxY + labelHeight + BUBBLE_PADDING + BUBBLE_FONT_SIZE * 0.85}" text-anchor="middle" font-family="${FONT_FAMILY}" font-size="${BUBBLE_FONT_SIZE}" font-weight="bold" ${caption ? 'font-style="italic" ' : ''}fill="#111111">${tspans}</text>`;
+
+  if (caption) {
+    return {
+      svg: `<rect x="${boxX}" y="${boxY}" width="${boxWidth}" height="${boxHeight}" fill="#fff6c2" stroke="#111111" stroke-width="2"/>${textElement}`,
+      height: boxHeight,
+    };
+  }
+
+  // Speech bubble with a tail pointing down into the panel, on the side of
+  // the panel the bubble is on
+  const tailX =
+    align === 'left'
+      ? boxX + Math.min(40, boxWidth / 3)
+      : boxX + boxWidth - Math.min(40, boxWidth / 3) - 24;
+  const tailY = boxY + boxHeight;
+  const tail = `<path d="M ${tailX} ${tailY - 2} L ${tailX + 8} ${tailY + BUBBLE_TAIL_HEIGHT} L ${tailX + 24} ${tailY - 2} Z" fill="#ffffff" stroke="#111111" stroke-width="2" stroke-linejoin="round"/>`;
+  const tailJoin = `<line x1="${tailX + 1}" y1="${tailY - 1}" x2="${tailX + 23}" y2="${tailY - 1}" stroke="#ffffff" stroke-width="3"/>`;
+
+  return {
+    svg: `<rect x="${boxX}" y="${boxY}" width="${boxWidth}" height="${boxHeight}" rx="${Math.min(24, boxHeight / 2)}" fill="#ffffff" stroke="#111111" stroke-width="2"/>${tail}${tailJoin}${label}${textElement}`,
+    height: boxHeight + tailHeight,
+  };
+}
+
+// Sound effects in large outlined letters, stacked in the bottom right
+// corner of the panel and tilted, the first one on top
+function renderSoundEffects(soundEffects: string[], rect: PanelRect): string {
+  const maxWidth = rect.width * 0.7;
+
+  let y = rect.y + rect.height - BORDER_WIDTH - 20;
+  return [...soundEffects]
+    .reverse()
+    .map((effect) => {
+      const fontSize = Math.min(
+        SOUND_EFFECT_FONT_SIZE,
+        Math.floor(maxWidth / Math.max(textWidth(effect) * CHAR_WIDTH_RATIO, 1))
+      );
+      const x = rect.x + rect.width - BORDER_WIDTH - 20;
+      const element = `<text x="${x}" y="${y}" text-anchor="end" transform="rotate(-8 ${x} ${y})" font-family="${FONT_FAMILY}" font-size="${fontSize}" font-weight="bold" letter-spacing="2" fill="#ffd93d" stroke="#111111" stroke-width="2" paint-order="stroke">${escapeXml(effect)}</text>`;
+      y -= fontSize + LETTERING_GAP;
+      return element;
+    })
+    .join('');
+}
@@ -0,0 +1,72 @@
+import fs from 'fs/promises';
+import path from 'path';
+
+// Comics each user started on one UTC day
+interface DailyQuotaLedger {
+  day: string; // YYYY-MM-DD
+  started: Record<string, number>; // By user id
+}
+
+export interface JsonFileDailyQuotaOptions {
+  dataDir: string;
+  limit: number; // Comics per user per UTC day; 0 disables the quota
+}
+
+// Per-user daily comic quota, counted when a generation starts. The count is
+// kept in its own file rather than derived from the stored comics, so
+// deleting or cancelling a comic does not give its quota back.
+export class JsonFileDailyQuota {
+  private readonly filePath: string;
+  private readonly limit: number;
+  private ledger: DailyQuotaLedger = { day: '', started: {} };
+  private pendingWrite: Promise<void> = Promise.resolve();
+
+  constructor(options: JsonFileDailyQuotaOptions) {
+    this.filePath = path.join(options.dataDir, 'daily-quota.json');
+    this.limit = options.limit;
+  }
+
+  async init(): Promise<void> {
+    try {
+      this.ledger = JSON.parse(await fs.readFile(this.filePath, 'utf8'));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        console.error('❌ Failed to load the daily quota ledger:', error);
+      }
+    }
+  }
+
+  // Count a comic the user starts. Returns false, counting nothing, when the
+  // user has already started their daily number of comics. The check and
+  // the count happen together, so concurrent requests cannot all pass.
+  async take(userId: string, now = new Date()): Promise<boolean> {
+    if (this.limit <= 0) {
+      return true;
+    }
+
+    const day = now.toISOString().slice(0, 10);
+    if (this.ledger.day !== day) {
+      this.ledger = { day, started: {} };
+    }
+    const started = this.ledger.started[userId] ?? 0;
+    if (started >= this.limit) {
+      return false;
+    }
+    this.ledger.started[userId] = started + 1;
+
+    // Writes are chained so an older snapshot never wins
+    const snapshot = JSON.stringify(this.ledger);
+    this.pendingWrite = this.pendingWrite
+      .catch(() => undefined)
+      .then(() => this.writeFile(snapshot));
+    await this.pendingWrite;
+    return true;
+  }
+
+  // Write to a temporary file first so a crash never leaves a partial ledger
+  private async writeFile(contents: string): Promise<void> {
+    const tempPath = `${this.filePath}.tmp`;
+    await fs.writeFile(tempPath, contents, 'utf8');
+    await fs.rename(tempPath, this.filePath);
+  }
+}
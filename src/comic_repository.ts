@@ -0,0 +1,191 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { ComicImageOutput } from './comic_image_node';
+import { ComicLayoutTemplate } from './comic_layout';
+import { ComicStoryOutput } from './comic_story_node';
+import { ComicCharacter } from './comic_characters';
+import { castFromDescriptions, ComicCastMember } from './comic_cast';
+import { ownerOf } from './auth';
+import { ComicGenerationOptions } from './generation_options';
+import { ComicUsage } from './comic_usage';
+import { ComicCallback, WebhookDeliveryAttempt } from './comic_webhooks';
+
+// A comic generation request and its result
+export interface ComicRequest {
+  id: string;
+  ownerId?: string; // User who requested the comic
+  cast: ComicCastMember[];
+  artStyle: string;
+  theme?: string;
+  panelCount: number;
+  layout: ComicLayoutTemplate;
+  characters?: ComicCharacter[]; // Saved characters, as they were when requested
+  seriesId?: string; // Series the comic is an issue of; the first issue's id
+  issueNumber?: number; // Position in the series, starting at 1
+  language?: string; // Dialogue language; English if unset
+  reviewScript?: boolean; // Stop for approval once the script is written
+  fresh?: boolean; // Do not reuse cached scripts or images
+  options?: ComicGenerationOptions; // Models and image parameters; defaults if unset
+  status:
+    | 'pending'
+    | 'generating_story'
+    | 'awaiting_approval'
+    | 'generating_images'
+    | 'completed'
+    | 'error'
+    | 'rejected'; // Moderation refused the prompt or script
+  script?: ComicStoryOutput; // Script waiting for approval, or as approved
+  result?: ComicImageOutput;
+  error?: string;
+  rejectionReason?: string; // Why moderation refused the request
+  usage?: ComicUsage; // Provider calls, timings and estimated cost so far
+  callback?: ComicCallback; // Receives the final status as a webhook
+  webhookDeliveries?: WebhookDeliveryAttempt[];
+  createdAt: Date;
+}
+
+// Statuses of a comic that has not finished generating yet
+const IN_PROGRESS_STATUSES: ComicRequest['status'][] = [
+  'pending',
+  'generating_story',
+  'awaiting_approval',
+  'generating_images',
+];
+
+export function isComicInProgress(request: ComicRequest): boolean {
+  return IN_PROGRESS_STATUSES.includes(request.status);
+}
+
+// Storage for comic requests and their results
+export interface ComicRepository {
+  init(): Promise<void>;
+  save(request: ComicRequest): Promise<void>;
+  get(id: string): Promise<ComicRequest | undefined>;
+  listRecent(limit: number, ownerId?: string): Promise<ComicRequest[]>;
+  delete(id: string): Promise<boolean>;
+  // Comics still in progress are kept however old they are
+  deleteOlderThan(cutoff: Date): Promise<number>;
+}
+
+export interface JsonFileComicRepositoryOptions {
+  dataDir: string;
+}
+
+// Stores each comic request as its own JSON file under <dataDir>/comics and
+// keeps an in-memory index of all records for fast listing
+export class JsonFileComicRepository implements ComicRepository {
+  private readonly comicsDir: string;
+  private readonly records = new Map<string, ComicRequest>();
+  private readonly pendingWrites = new Map<string, Promise<void>>();
+
+  constructor(options: JsonFileComicRepositoryOptions) {
+    this.comicsDir = path.join(options.dataDir, 'comics');
+  }
+
+  async init(): Promise<void> {
+    await fs.mkdir(this.comicsDir, { recursive: true });
+
+    const files = await fs.readdir(this.comicsDir);
+    for (const file of files.filter((f) => f.endsWith('.json'))) {
+      try {
+        const raw = await fs.readFile(path.join(this.comicsDir, file), 'utf8');
+        const request = deserializeComicRequest(raw);
+        this.records.set(request.id, request);
+      } catch (error) {
+        console.error(`❌ Failed to load stored comic ${file}:`, error);
+      }
+    }
+
+    console.log(
+      `💾 Loaded ${this.records.size} stored comic(s) from ${this.comicsDir}`
+    );
+  }
+
+  async save(request: ComicRequest): Promise<void> {
+    this.records.set(request.id, request);
+
+    // Serialize writes per record so an older snapshot never wins
+    const snapshot = JSON.stringify(request);
+    const previous = this.pendingWrites.get(request.id) ?? Promise.resolve();
+    const write = previous
+      .catch(() => undefined)
+      .then(() => this.writeFile(request.id, snapshot));
+    this.pendingWrites.set(request.id, write);
+
+    try {
+      await write;
+    } finally {
+      if (this.pendingWrites.get(request.id) === write) {
+        this.pendingWrites.delete(request.id);
+      }
+    }
+  }
+
+  async get(id: string): Promise<ComicRequest | undefined> {
+    return this.records.get(id);
+  }
+
+  // Newest first, optionally only the given owner's comics
+  async listRecent(limit: number, ownerId?: string): Promise<ComicRequest[]> {
+    return Array.from(this.records.values())
+      .filter(
+        (request) => ownerId === undefined || ownerOf(request) === ownerId
+      )
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime())
+      .slice(0, limit);
+  }
+
+  async delete(id: string): Promise<boolean> {
+    if (!this.records.delete(id)) {
+      return false;
+    }
+
+    // Let a pending write finish first so it cannot recreate the file
+    await this.pendingWrites.get(id)?.catch(() => undefined);
+    await fs.rm(this.filePath(id), { force: true });
+    return true;
+  }
+
+  async deleteOlderThan(cutoff: Date): Promise<number> {
+    let deletedCount = 0;
+
+    for (const [id, request] of this.records) {
+      if (request.createdAt < cutoff && !isComicInProgress(request)) {
+        this.records.delete(id);
+        await fs.rm(this.filePath(id), { force: true });
+        deletedCount++;
+      }
+    }
+
+    return deletedCount;
+  }
+
+  private filePath(id: string): string {
+    return path.join(this.comicsDir, `${id}.json`);
+  }
+
+  // Write to a temporary file first so a crash never leaves a partial record
+  private async writeFile(id: string, contents: string): Promise<void> {
+    const filePath = this.filePath(id);
+    const tempPath = `${filePath}.tmp`;
+    await fs.writeFile(tempPath, contents, 'utf8');
+    await fs.rename(tempPath, filePath);
+  }
+}
+
+function deserializeComicRequest(raw: string): ComicRequest {
+  const parsed = JSON.parse(raw);
+  if (!parsed || typeof parsed.id !== 'string') {
+    throw new Error('Invalid comic record: missing id');
+  }
+
+  // Comics requested before casts had exactly two described characters
+  const { character1Description, character2Description, ...request } = parsed;
+  return {
+    ...request,
+    cast:
+      request.cast ??
+      castFromDescriptions(character1Description, character2Description),
+    createdAt: new Date(parsed.createdAt),
+  };
+}
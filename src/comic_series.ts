@@ -0,0 +1,116 @@
+import { ComicRequest } from './comic_repository';
+import { ComicCharacterState, ComicPanel } from './comic_story_node';
+
+// Number of earlier issues summarized panel by panel in the story prompt;
+// older issues are only listed by title
+const SERIES_CONTEXT_ISSUES = Number(process.env.SERIES_CONTEXT_ISSUES ?? 3);
+
+// Longest visual description quoted from an earlier panel
+const MAX_PANEL_SUMMARY_LENGTH = 200;
+
+// What the story generator is told about the earlier issues of a series
+export interface ComicSeriesContext {
+  issueNumber: number; // Number of the issue being written
+  issues: ComicSeriesIssueSummary[]; // Earlier issues with a script, oldest first
+  characterStates: ComicCharacterState[]; // Latest known state of each character
+}
+
+export interface ComicSeriesIssueSummary {
+  issueNumber: number;
+  title: string;
+  panels?: string[]; // One line per panel; only for the most recent issues
+}
+
+// The issues of a series in reading order
+export function sortIssues(issues: ComicRequest[]): ComicRequest[] {
+  return [...issues].sort(
+    (a, b) => (a.issueNumber ?? 0) - (b.issueNumber ?? 0)
+  );
+}
+
+// Title of a series: the title of its first issue with a script
+export function seriesTitle(issues: ComicRequest[]): string {
+  const first = sortIssues(issues).find(
+    (issue) => issue.result ?? issue.script
+  );
+  return (first?.result ?? first?.script)?.title ?? 'Untitled Series';
+}
+
+// Summarize the issues before issueNumber for the story prompt. Issues that
+// failed before their script was written are left out.
+export function buildSeriesContext(
+  issues: ComicRequest[],
+  issueNumber: number
+): ComicSeriesContext {
+  const written = sortIssues(issues).filter(
+    (issue) =>
+      (issue.issueNumber ?? 0) < issueNumber && (issue.result ?? issue.script)
+  );
+  const detailedFrom = written.length - SERIES_CONTEXT_ISSUES;
+
+  // Later issues overwrite the states of characters they mention
+  const characterStates = new Map<string, ComicCharacterState>();
+
+  const summaries = written.map((issue, index) => {
+    const story = (issue.result ?? issue.script)!;
+    for (const state of story.characterStates ?? []) {
+      characterStates.set(state.name.toLowerCase(), state);
+    }
+
+    return {
+      issueNumber: issue.issueNumber ?? index + 1,
+      title: story.title ?? 'Untitled Comic',
+      panels:
+        index >= detailedFrom ? story.panels.map(summarizePanel) : undefined,
+    };
+  });
+
+  return {
+    issueNumber,
+    issues: summaries,
+    characterStates: Array.from(characterStates.values()),
+  };
+}
+
+// One line per panel: who is in it, what is narrated and said, and what is
+// shown
+function summarizePanel(panel: ComicPanel): string {
+  const characters = panel.characters?.length
+    ? ` (${panel.characters.join(', ')})`
+    : '';
+  const captions = (panel.captions ?? [])
+    .map((caption) => ` Caption: "${caption}"`)
+    .join('');
+  const lines = panel.dialogue
+    ? panel.dialogue.map((line) => ` ${line.speaker}: "${line.text}"`)
+    : panel.dialogueText
+      ? [` ${panel.speaker ? `${panel.speaker}: ` : ''}"${panel.dialogueText}"`]
+      : [];
+  const dialogue = captions + lines.join('');
+  const visual =
+    panel.visualDescription.length > MAX_PANEL_SUMMARY_LENGTH
+      ? `${panel.visualDescription.slice(0, MAX_PANEL_SUMMARY_LENGTH)}…`
+      : panel.visualDescription;
+  return `Panel ${panel.panelNumber}${characters}:${dialogue} [${visual}]`;
+}
+
+// Story prompt section recapping the series so far
+export function seriesContextPrompt(context: ComicSeriesContext): string {
+  const issues = context.issues.map((issue) => {
+    const heading = `Issue ${issue.issueNumber}: "${issue.title}"`;
+    return issue.panels
+      ? [heading, ...issue.panels.map((panel) => `  ${panel}`)].join('\n')
+      : heading;
+  });
+  const states = context.characterStates.map(
+    (state) => `- ${state.name}: ${state.state}`
+  );
+
+  return [
+    `PREVIOUSLY IN THIS SERIES (this comic is issue ${context.issueNumber}; continue the story from where the last issue ended, keep characters and events consistent, and do not retell earlier issues):`,
+    ...issues,
+    ...(states.length > 0
+      ? ['CHARACTER STATES AT THE END OF THE LAST ISSUE:', ...states]
+      : []),
+  ].join('\n');
+}
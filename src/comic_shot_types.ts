@@ -0,0 +1,51 @@
+// Camera framings a panel can be drawn with
+export const COMIC_SHOT_TYPES = [
+  'establishing',
+  'wide',
+  'medium',
+  'close_up',
+  'extreme_close_up',
+  'over_the_shoulder',
+  'low_angle',
+  'high_angle',
+  'birds_eye',
+] as const;
+
+export type ComicShotType = (typeof COMIC_SHOT_TYPES)[number];
+
+// How each shot type is described to the image model
+const SHOT_TYPE_PROMPTS: Record<ComicShotType, string> = {
+  establishing: 'establishing shot showing the whole setting',
+  wide: 'wide shot with full figures in their surroundings',
+  medium: 'medium shot framing the characters from the waist up',
+  close_up: 'close-up shot on the face',
+  extreme_close_up: 'extreme close-up on a single detail',
+  over_the_shoulder: 'over-the-shoulder shot',
+  low_angle: 'low-angle shot looking up',
+  high_angle: 'high-angle shot looking down',
+  birds_eye: "bird's-eye view from directly above",
+};
+
+export function isComicShotType(value: unknown): value is ComicShotType {
+  return (COMIC_SHOT_TYPES as readonly unknown[]).includes(value);
+}
+
+// Spellings such as "Close-up" or "bird's eye" as the schema expects them.
+// Null, as LLMs write for "no particular shot", becomes undefined.
+export function normalizeShotType(value: unknown): unknown {
+  if (value === null) {
+    return undefined;
+  }
+  if (typeof value !== 'string') {
+    return value;
+  }
+  return value
+    .trim()
+    .toLowerCase()
+    .replace(/['’]/g, '')
+    .replace(/[\s-]+/g, '_');
+}
+
+export function shotTypePrompt(shotType: ComicShotType): string {
+  return SHOT_TYPE_PROMPTS[shotType];
+}
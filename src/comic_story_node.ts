@@ -1,47 +1,225 @@
 import { CustomNode, ProcessContext } from '@inworld/runtime/graph';
 import { GraphTypes } from '@inworld/runtime/common';
+import {
+  ComicLayout,
+  ComicLayoutTemplate,
+  createComicLayout,
+  describeComicLayout,
+} from './comic_layout';
+import {
+  comicPanelEditSchema,
+  ComicStorySchemaOutput,
+  describeIssues,
+  validateComicStory,
+} from './comic_story_schema';
+import { COMIC_SHOT_TYPES, ComicShotType } from './comic_shot_types';
+import { estimateTokens } from './comic_usage';
+import {
+  COMIC_CHARACTERS_DATASTORE_KEY,
+  ComicCharacter,
+  characterAppearancePrompt,
+} from './comic_characters';
+import {
+  ComicCastMember,
+  describeCastMember,
+  findCastMember,
+  findMentionedCastMembers,
+} from './comic_cast';
+import { ComicSeriesContext, seriesContextPrompt } from './comic_series';
+import {
+  DEFAULT_COMIC_LANGUAGE,
+  isDefaultLanguage,
+  languageName,
+} from './comic_language';
 
 // Input interface for comic story generation
 export interface ComicStoryInput {
-  character1Description: string;
-  character2Description: string;
+  cast: ComicCastMember[];
   artStyle: string;
   theme?: string; // Optional theme/setting
+  panelCount?: number; // Defaults to 4
+  layout?: ComicLayoutTemplate; // Defaults to a 2x2 grid
+  characters?: ComicCharacter[]; // Saved characters from the character bible
+  series?: ComicSeriesContext; // Earlier issues, when continuing a series
+  language?: string; // BCP 47 tag of the dialogue language; English by default
 }
 
-// Output interface for comic panels
+// One speech bubble: a cast member and what they say
+export interface ComicDialogueLine {
+  speaker: string;
+  text: string;
+}
+
+// Output interface for comic panels. Older scripts only have dialogueText,
+// lettered as a single bubble or caption.
 export interface ComicPanel {
   panelNumber: number;
-  dialogueText: string;
+  dialogueText: string; // The dialogue lines as "Speaker: text", one per line
   visualDescription: string;
+  dialogue?: ComicDialogueLine[]; // In reading order
+  captions?: string[]; // Narration boxes
+  soundEffects?: string[]; // Lettered sound effects, such as "CRASH!"
+  shotType?: ComicShotType;
+  characters?: string[]; // Cast members in the panel; unset in older scripts
+  speaker?: string; // Speaker of the first dialogue line
+}
+
+// Where a character stands at the end of a comic, so a later issue of the
+// series can pick up from there
+export interface ComicCharacterState {
+  name: string;
+  state: string;
 }
 
 export interface ComicStoryOutput {
   panels: ComicPanel[];
   artStyle: string;
   title?: string;
+  layout: ComicLayout;
+  cast?: ComicCastMember[];
+  characters?: ComicCharacter[];
+  characterStates?: ComicCharacterState[];
+  language?: string; // Language of the title and dialogue; unset in older scripts
+}
+
+// Input for a repair round, after the LLM returned an unusable script
+export interface ComicStoryRepairInput {
+  story: ComicStoryInput;
+  invalidResponse: string;
+  errors: string[];
 }
 
+// Result of parsing the LLM's script. Invalid scripts keep the raw response
+// and validation errors so they can be sent back to the LLM for repair.
+export type ComicStoryParseResult =
+  | { valid: true; story: ComicStoryOutput }
+  | { valid: false; errors: string[]; rawResponse: string };
+
+// Datastore key used to pass the requested layout from the story generator
+// to the response parser
+export const COMIC_LAYOUT_DATASTORE_KEY = 'comicLayout';
+
+// Datastore key used to pass the cast from the story generator to the
+// response parser
+export const COMIC_CAST_DATASTORE_KEY = 'comicCast';
+
+// Datastore key used to pass the dialogue language from the story generator
+// to the response parser
+export const COMIC_LANGUAGE_DATASTORE_KEY = 'comicLanguage';
+
+// Datastore key holding the estimated prompt size, so the response parser can
+// report the LLM call's token usage
+export const COMIC_PROMPT_TOKENS_DATASTORE_KEY = 'comicPromptTokens';
+
+type ChatMessage = { role: 'user' | 'assistant'; content: string };
+
 // Custom Comic Story Generation node
 export class ComicStoryGeneratorNode extends CustomNode {
   process(
-    _context: ProcessContext,
+    context: ProcessContext,
     input: ComicStoryInput
   ): GraphTypes.LLMChatRequest {
     console.log(
-      `📝 Generating comic story for characters: "${input.character1Description}" and "${input.character2Description}"`
+      `📝 Generating comic story for characters: ${input.cast.map((member) => `"${member.name}"`).join(', ')}`
+    );
+
+    const layout = createComicLayout(input.layout, input.panelCount);
+    const messages: ChatMessage[] = [
+      { role: 'user', content: buildComicStoryPrompt(input, layout) },
+    ];
+    storeStoryContext(context, layout, messages, input);
+
+    return new GraphTypes.LLMChatRequest({ messages });
+  }
+}
+
+// Custom node that asks the LLM to fix a script that failed validation
+export class ComicStoryRepairNode extends CustomNode {
+  process(
+    context: ProcessContext,
+    input: ComicStoryRepairInput
+  ): GraphTypes.LLMChatRequest {
+    console.log(
+      `🔧 Asking the LLM to repair an invalid comic script (${input.errors.length} error(s))`
+    );
+
+    const layout = createComicLayout(
+      input.story.layout,
+      input.story.panelCount
     );
+    const messages: ChatMessage[] = [
+      { role: 'user', content: buildComicStoryPrompt(input.story, layout) },
+      { role: 'assistant', content: input.invalidResponse },
+      {
+        role: 'user',
+        content: `Your response could not be used because it failed validation:
+${input.errors.map((error) => `- ${error}`).join('\n')}
 
-    const prompt = `You are a comic book writer. Create a 4-panel comic story with the following characters and specifications:
+Fix these problems and return the complete corrected JSON object with exactly ${layout.panelCount} panel(s). Return ONLY the JSON object, no additional text or formatting.`,
+      },
+    ];
+    storeStoryContext(context, layout, messages, input.story);
 
-CHARACTER 1: ${input.character1Description}
-CHARACTER 2: ${input.character2Description}
+    return new GraphTypes.LLMChatRequest({ messages });
+  }
+}
+
+// Make the layout, cast, language, saved characters and prompt size
+// available to the response parser
+function storeStoryContext(
+  context: ProcessContext,
+  layout: ComicLayout,
+  messages: ChatMessage[],
+  input: ComicStoryInput
+) {
+  const datastore = context.getDatastore();
+  datastore.add(COMIC_LAYOUT_DATASTORE_KEY, layout);
+  datastore.add(COMIC_CAST_DATASTORE_KEY, input.cast);
+  datastore.add(
+    COMIC_LANGUAGE_DATASTORE_KEY,
+    input.language ?? DEFAULT_COMIC_LANGUAGE
+  );
+  datastore.add(COMIC_CHARACTERS_DATASTORE_KEY, input.characters ?? []);
+  datastore.add(
+    COMIC_PROMPT_TOKENS_DATASTORE_KEY,
+    estimateTokens(messages.map((message) => message.content).join('\n'))
+  );
+}
+
+// Prompt asking the LLM to write the comic script as JSON
+function buildComicStoryPrompt(
+  input: ComicStoryInput,
+  layout: ComicLayout
+): string {
+  const panelCount = layout.panelCount;
+  const remainingPanels = Array.from(
+    { length: panelCount - 1 },
+    (_, i) => i + 2
+  );
+
+  return `You are a comic book writer. Create a ${panelCount}-panel comic story with the following characters and specifications:
+
+CHARACTERS:
+${input.cast.map((member) => `- ${describeCastMember(member)}`).join('\n')}
 ART STYLE: ${input.artStyle}
 ${input.theme ? `THEME/SETTING: ${input.theme}` : ''}
+${input.series ? seriesContextPrompt(input.series) : ''}
+${
+  !isDefaultLanguage(input.language)
+    ? `LANGUAGE: Write the title, dialogue, captions, sound effects and character states in ${languageName(input.language!)}. Keep the visual descriptions, the speaker and character names, the shot types and the JSON keys in English.`
+    : ''
+}
+${
+  input.characters?.length
+    ? `CANONICAL CHARACTER APPEARANCE (refer to these characters by name and repeat their appearance details exactly in every visual description they appear in): ${characterAppearancePrompt(input.characters)}`
+    : ''
+}
 
-Create exactly 4 panels for a short comic strip. For each panel, provide:
-1. Any dialogue or text that should appear in the panel
-2. A detailed visual description for the image generation
+Create exactly ${panelCount} panel(s) for a short comic. The panels will be laid out as ${describeComicLayout(layout)}. For each panel, provide:
+1. The dialogue, each line with the character who says it
+2. Narration captions and sound effects, if any
+3. The camera shot
+4. A detailed visual description for the image generation
 
 Format your response as a JSON object with this exact structure:
 {
@@ -49,118 +227,307 @@ Format your response as a JSON object with this exact structure:
   "panels": [
     {
       "panelNumber": 1,
-      "dialogueText": "Text spoken by characters in this panel",
+      "dialogue": [
+        {
+          "speaker": "Name of the character saying this line",
+          "text": "What they say"
+        }
+      ],
+      "captions": ["Narration box text, such as 'Meanwhile, across town...'"],
+      "soundEffects": ["Sound effect lettered in the panel, such as 'CRASH!'"],
+      "shotType": "One of: ${COMIC_SHOT_TYPES.join(', ')}",
+      "characters": ["Names of the characters who appear in this panel"],
       "visualDescription": "Detailed description of what should be drawn in this panel, including character positions, actions, expressions, background, and artistic style"
-    },
-    ... (repeat for panels 2, 3, 4)
+    }${remainingPanels.length > 0 ? `,\n    ... (repeat for panels ${remainingPanels.join(', ')})` : ''}
+  ],
+  "characterStates": [
+    {
+      "name": "Name of a character",
+      "state": "Where the character is, what they want and how they feel at the end of this comic"
+    }
   ]
 }
 
 Guidelines:
 - Each visual description should be detailed enough for image generation
 - Include the art style (${input.artStyle}) in each visual description
-- Make sure the story flows logically across the 4 panels
-- Keep dialogue concise and appropriate for comic bubbles
+- Make sure the story flows logically across the ${panelCount} panel(s)
+- Keep dialogue concise and appropriate for comic bubbles, with at most three lines per panel
+- Use empty lists for panels without dialogue, captions or sound effects
+- Vary the shot types to pace the story
 - Describe character expressions and body language
 - Include background/setting details
-- Make it engaging and complete in just 4 panels
-- Only one character should speak in each panel, but both characters can be present
-- Do not include speech bubbles in the visual descriptions!
+- Make it engaging and complete in just ${panelCount} panel(s)
+- Put narration in "captions" and noises in "soundEffects", never in the dialogue
+- Refer to characters only by the names listed above, in "speaker", "characters" and the visual descriptions
+- Do not include speech bubbles, captions or lettering in the visual descriptions!
 
 IMPORTANT: Return ONLY the JSON object, no additional text or formatting.`;
+}
 
-    return new GraphTypes.LLMChatRequest({
-      messages: [{ role: 'user', content: prompt }],
-    });
+// Helper function to parse and validate the LLM response. Nothing is
+// substituted for an invalid script; the caller decides whether to repair it.
+export function parseComicStoryResponse(
+  llmResponse: string,
+  layout: ComicLayout = createComicLayout(),
+  cast: ComicCastMember[] = []
+): ComicStoryParseResult {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(stripCodeFence(llmResponse));
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    console.error('❌ Comic story response is not valid JSON:', message);
+    return {
+      valid: false,
+      errors: [`Response is not valid JSON: ${message}`],
+      rawResponse: llmResponse,
+    };
+  }
+
+  const validation = validateComicStory(
+    parsed,
+    layout.panelCount,
+    cast.map((member) => member.name)
+  );
+  if (!validation.success) {
+    console.error(
+      '❌ Comic story response failed validation:',
+      validation.errors
+    );
+    return {
+      valid: false,
+      errors: validation.errors,
+      rawResponse: llmResponse,
+    };
   }
+
+  const { data } = validation;
+  const story: ComicStoryOutput = {
+    // Ensure panelNumber is set correctly
+    panels: data.panels.map((panel, index) => toComicPanel(panel, index, cast)),
+    artStyle: data.artStyle || 'comic book style',
+    title: data.title || 'Untitled Comic',
+    layout,
+    cast: cast.length > 0 ? cast : undefined,
+    characterStates: toCharacterStates(data.characterStates, cast),
+  };
+
+  console.log(
+    `✅ Successfully parsed comic story with ${story.panels.length} panels`
+  );
+  return { valid: true, story };
 }
 
-// Helper function to parse LLM response into ComicStoryOutput
-export function parseComicStoryResponse(llmResponse: string): ComicStoryOutput {
-  try {
-    // Clean the response - remove any markdown formatting or extra text
-    let cleanResponse = llmResponse.trim();
-
-    // Remove markdown code blocks if present
-    if (cleanResponse.startsWith('```json')) {
-      cleanResponse = cleanResponse
-        .replace(/```json\s*/, '')
-        .replace(/```\s*$/, '');
-    } else if (cleanResponse.startsWith('```')) {
-      cleanResponse = cleanResponse
-        .replace(/```\s*/, '')
-        .replace(/```\s*$/, '');
-    }
+// Clean an LLM response - remove any markdown formatting around its JSON
+export function stripCodeFence(llmResponse: string): string {
+  const cleanResponse = llmResponse.trim();
 
-    const parsed = JSON.parse(cleanResponse);
+  // Remove markdown code blocks if present
+  if (cleanResponse.startsWith('```json')) {
+    return cleanResponse.replace(/```json\s*/, '').replace(/```\s*$/, '');
+  } else if (cleanResponse.startsWith('```')) {
+    return cleanResponse.replace(/```\s*/, '').replace(/```\s*$/, '');
+  }
+  return cleanResponse;
+}
 
-    console.log('🔄 Successfully parsed comic story response:', parsed);
+// Validate a script edited by a user before it is rendered. Only the title,
+// art style and panel text can change; the layout is kept from the original.
+export function validateEditedScript(
+  script: unknown,
+  original: ComicStoryOutput
+): ComicStoryOutput {
+  const cast = original.cast ?? [];
+  const validation = validateComicStory(
+    script,
+    original.layout.panelCount,
+    cast.map((member) => member.name)
+  );
+  if (!validation.success) {
+    throw new Error(validation.errors.join('; '));
+  }
 
-    // Validate the structure
-    if (!parsed.panels || !Array.isArray(parsed.panels)) {
-      throw new Error('Invalid response: panels array missing');
-    }
+  const { data } = validation;
+  return {
+    panels: data.panels.map((panel, index) => toComicPanel(panel, index, cast)),
+    artStyle: data.artStyle ?? original.artStyle,
+    title: data.title?.trim() || original.title,
+    layout: original.layout,
+    cast: original.cast,
+    characters: original.characters,
+    language: original.language,
+    characterStates: data.characterStates
+      ? toCharacterStates(data.characterStates, cast)
+      : original.characterStates,
+  };
+}
 
-    if (parsed.panels.length !== 4) {
-      throw new Error(`Expected 4 panels, got ${parsed.panels.length}`);
-    }
+// Character states with cast names spelled as in the cast. Other characters
+// the script introduced are kept as written.
+function toCharacterStates(
+  states: ComicStorySchemaOutput['characterStates'],
+  cast: ComicCastMember[]
+): ComicCharacterState[] | undefined {
+  return states?.map(({ name, state }) => ({
+    name: findCastMember(name, cast)?.name ?? name,
+    state,
+  }));
+}
 
-    // Validate each panel
-    parsed.panels.forEach((panel: ComicPanel, index: number) => {
-      if (!panel.dialogueText && panel.dialogueText !== '') {
-        throw new Error(`Panel ${index + 1}: missing dialogueText`);
-      }
-      if (!panel.visualDescription) {
-        throw new Error(`Panel ${index + 1}: missing visualDescription`);
-      }
-      // Ensure panelNumber is set correctly
-      panel.panelNumber = index + 1;
-    });
-
-    const result: ComicStoryOutput = {
-      panels: parsed.panels,
-      artStyle: parsed.artStyle || 'comic book style',
-      title: parsed.title || 'Untitled Comic',
-    };
+// Validate edits to one panel of a finished comic before it is redrawn.
+// Fields that are not edited keep their current value; an edited
+// dialogueText becomes a single line said by the panel's first speaker.
+export function validateEditedPanel(
+  edits: unknown,
+  current: ComicPanel,
+  cast: ComicCastMember[]
+): ComicPanel {
+  const result = comicPanelEditSchema(
+    cast.map((member) => member.name)
+  ).safeParse(edits ?? {});
+  if (!result.success) {
+    throw new Error(describeIssues(result.error).join('; '));
+  }
+  const edit = result.data;
 
-    console.log(
-      `✅ Successfully parsed comic story with ${result.panels.length} panels`
-    );
-    return result;
-  } catch (error) {
-    console.error('❌ Failed to parse comic story response:', error);
-    console.error('Raw response:', llmResponse);
+  const visualDescription = edit.visualDescription ?? current.visualDescription;
+  const shotType = edit.shotType ?? current.shotType;
 
-    // Fallback: create a simple error comic
+  // Older panels stay a single dialogueText unless given dialogue lines
+  if (
+    !current.dialogue &&
+    !edit.dialogue &&
+    !edit.captions &&
+    !edit.soundEffects
+  ) {
     return {
-      panels: [
-        {
-          panelNumber: 1,
-          dialogueText: 'Error generating comic story',
-          visualDescription:
-            'A simple illustration showing an error message, drawn in comic book style',
-        },
-        {
-          panelNumber: 2,
-          dialogueText: 'Please try again',
-          visualDescription:
-            'A character looking confused, drawn in comic book style',
-        },
-        {
-          panelNumber: 3,
-          dialogueText: 'Check your input',
-          visualDescription:
-            'A character pointing at the viewer, drawn in comic book style',
-        },
-        {
-          panelNumber: 4,
-          dialogueText: 'Thank you!',
-          visualDescription:
-            'A character waving goodbye, drawn in comic book style',
-        },
-      ],
-      artStyle: 'comic book style',
-      title: 'Error Comic',
+      panelNumber: current.panelNumber,
+      dialogueText: edit.dialogueText?.trim() ?? current.dialogueText,
+      visualDescription,
+      shotType,
+      characters: current.characters,
+      speaker: current.speaker,
     };
   }
+
+  let dialogue = edit.dialogue ?? current.dialogue;
+  let dialogueText = current.dialogueText;
+  if (!edit.dialogue && edit.dialogueText !== undefined) {
+    dialogueText = edit.dialogueText;
+    if (current.dialogue) {
+      const text = edit.dialogueText.trim();
+      if (text && !current.speaker) {
+        throw new Error(
+          'This panel has no speaker; send dialogue lines with a speaker instead of dialogueText'
+        );
+      }
+      dialogue = text ? [{ speaker: current.speaker!, text }] : [];
+    }
+  }
+
+  // An older panel's dialogueText is converted like an older script's
+  return toComicPanel(
+    {
+      visualDescription,
+      dialogue,
+      dialogueText,
+      speaker: current.speaker,
+      captions: edit.captions ?? current.captions,
+      soundEffects: edit.soundEffects ?? current.soundEffects,
+      shotType,
+      characters: current.characters,
+    },
+    current.panelNumber - 1,
+    cast
+  );
+}
+
+// Dialogue lines as plain text, for clients that predate them
+export function formatDialogueText(dialogue: ComicDialogueLine[]): string {
+  return dialogue.map((line) => `${line.speaker}: ${line.text}`).join('\n');
+}
+
+// The speaker and text of an older script's dialogueText, such as
+// "Mira: Look!". Narration ("Narrator: ..." or "[...]") has no speaker.
+function splitLegacyDialogue(
+  dialogueText: string,
+  speaker: string,
+  cast: ComicCastMember[]
+): { text: string; speaker: string } {
+  if (speaker) {
+    return { text: dialogueText, speaker };
+  }
+
+  const narration =
+    dialogueText.match(/^(?:narrator|narration|caption)\s*:\s*(.*)$/is) ??
+    dialogueText.match(/^\[(.*)\]$/s);
+  if (narration) {
+    return { text: narration[1].trim(), speaker: '' };
+  }
+
+  const line = dialogueText.match(/^([^:\n]+):\s*(.+)$/s);
+  const member = line ? findCastMember(line[1], cast) : undefined;
+  return member
+    ? { text: line![2].trim(), speaker: member.name }
+    : { text: dialogueText, speaker: '' };
+}
+
+// A validated panel with cast names spelled as in the cast. Panels that do
+// not list their characters get the cast members mentioned in their text, and
+// every speaker is listed. A dialogueText from an older script becomes one
+// dialogue line if it has a speaker or starts with a cast member's name, or
+// else a caption.
+function toComicPanel(
+  panel: ComicStorySchemaOutput['panels'][number],
+  index: number,
+  cast: ComicCastMember[]
+): ComicPanel {
+  const canonicalName = (name: string) =>
+    findCastMember(name, cast)?.name ?? name.trim();
+
+  const legacy = panel.dialogue
+    ? { text: '', speaker: '' }
+    : splitLegacyDialogue(
+        (panel.dialogueText ?? '').trim(),
+        panel.speaker ? canonicalName(panel.speaker) : '',
+        cast
+      );
+  const dialogue: ComicDialogueLine[] = panel.dialogue
+    ? panel.dialogue.map((line) => ({
+        speaker: canonicalName(line.speaker),
+        text: line.text,
+      }))
+    : legacy.text && legacy.speaker
+      ? [{ speaker: legacy.speaker, text: legacy.text }]
+      : [];
+  const captions = [
+    ...(panel.captions ?? []),
+    ...(legacy.text && !legacy.speaker ? [legacy.text] : []),
+  ];
+
+  const dialogueText = formatDialogueText(dialogue);
+  let characters = panel.characters?.map(canonicalName);
+  if (!characters && cast.length > 0) {
+    characters = findMentionedCastMembers(
+      { dialogueText, visualDescription: panel.visualDescription },
+      cast
+    ).map((member) => member.name);
+  }
+  const speakers = dialogue.map((line) => line.speaker);
+  if (characters) {
+    characters = Array.from(new Set([...speakers, ...characters]));
+  }
+
+  return {
+    panelNumber: index + 1,
+    dialogueText,
+    visualDescription: panel.visualDescription,
+    dialogue,
+    captions,
+    soundEffects: panel.soundEffects ?? [],
+    shotType: panel.shotType,
+    characters,
+    speaker: speakers[0],
+  };
 }
@@ -0,0 +1,114 @@
+import { z } from 'zod';
+import { COMIC_SHOT_TYPES, normalizeShotType } from './comic_shot_types';
+
+const nonEmptyText = z.string().trim().min(1, 'must not be empty');
+
+// Shape the LLM must return for a panel
+const comicPanelObject = z.object({
+  panelNumber: z.number().int().optional(), // Renumbered after validation
+  visualDescription: nonEmptyText,
+  dialogue: z
+    .array(z.object({ speaker: nonEmptyText, text: nonEmptyText }))
+    .optional(),
+  captions: z.array(nonEmptyText).optional(),
+  soundEffects: z.array(nonEmptyText).optional(),
+  shotType: z.preprocess(
+    normalizeShotType,
+    z.enum(COMIC_SHOT_TYPES).optional()
+  ),
+  characters: z.array(nonEmptyText).optional(),
+  // Older scripts have a single dialogueText with an optional speaker
+  // instead of dialogue lines
+  dialogueText: z.string().optional(),
+  speaker: z.string().trim().nullish(), // Null or empty when nobody speaks
+});
+
+type ComicPanelFields = Partial<z.infer<typeof comicPanelObject>>;
+
+// Names in a panel must belong to the cast, when the comic has one
+function refineCastNames(castNames: string[]) {
+  const cast = castNames.map((name) => name.toLowerCase());
+  const notInCast = (name: string) =>
+    `"${name}" is not in the cast (${castNames.join(', ')})`;
+
+  return (panel: ComicPanelFields, ctx: z.RefinementCtx) => {
+    if (cast.length === 0) {
+      return;
+    }
+    const check = (name: string, path: (string | number)[]) => {
+      if (!cast.includes(name.toLowerCase())) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path,
+          message: notInCast(name),
+        });
+      }
+    };
+    panel.characters?.forEach((name, index) =>
+      check(name, ['characters', index])
+    );
+    panel.dialogue?.forEach((line, index) =>
+      check(line.speaker, ['dialogue', index, 'speaker'])
+    );
+    if (panel.speaker) {
+      check(panel.speaker, ['speaker']);
+    }
+  };
+}
+
+export function comicPanelSchema(castNames: string[] = []) {
+  return comicPanelObject.superRefine(refineCastNames(castNames));
+}
+
+// Edits to a panel, where every field is optional
+export function comicPanelEditSchema(castNames: string[] = []) {
+  return comicPanelObject
+    .omit({ panelNumber: true, characters: true, speaker: true })
+    .partial()
+    .superRefine(refineCastNames(castNames));
+}
+
+export function comicStorySchema(panelCount: number, castNames: string[] = []) {
+  return z.object({
+    title: z.string().optional(),
+    artStyle: nonEmptyText.optional(),
+    panels: z
+      .array(comicPanelSchema(castNames))
+      .length(panelCount, `must contain exactly ${panelCount} panel(s)`),
+    characterStates: z
+      .array(z.object({ name: nonEmptyText, state: nonEmptyText }))
+      .optional(),
+  });
+}
+
+export type ComicStorySchemaOutput = z.infer<
+  ReturnType<typeof comicStorySchema>
+>;
+
+export type ComicStoryValidationResult =
+  | { success: true; data: ComicStorySchemaOutput }
+  | { success: false; errors: string[] };
+
+// Validate a parsed script, returning readable errors such as
+// "panels.2.visualDescription: Required"
+export function validateComicStory(
+  value: unknown,
+  panelCount: number,
+  castNames?: string[]
+): ComicStoryValidationResult {
+  const result = comicStorySchema(panelCount, castNames).safeParse(value);
+  if (result.success) {
+    return { success: true, data: result.data };
+  }
+
+  return { success: false, errors: describeIssues(result.error) };
+}
+
+// Zod issues as "path: message"
+export function describeIssues(error: z.ZodError): string[] {
+  return error.issues.map((issue) =>
+    issue.path.length > 0
+      ? `${issue.path.join('.')}: ${issue.message}`
+      : issue.message
+  );
+}
@@ -0,0 +1,329 @@
+import { CustomNode, ProcessContext } from '@inworld/runtime/graph';
+import { GraphTypes } from '@inworld/runtime/common';
+import { z } from 'zod';
+import { ComicImageOutput, ComicPageImage } from './comic_image_node';
+import {
+  COMIC_PROMPT_TOKENS_DATASTORE_KEY,
+  ComicDialogueLine,
+  formatDialogueText,
+  stripCodeFence,
+} from './comic_story_node';
+import { describeIssues } from './comic_story_schema';
+import { estimateTokens } from './comic_usage';
+import { DEFAULT_COMIC_LANGUAGE, languageName } from './comic_language';
+
+// Text of a finished comic sent to the LLM for translation
+export interface ComicTranslationInput {
+  sourceLanguage: string;
+  language: string; // Language to translate into
+  title: string;
+  panels: ComicTranslationSourcePanel[];
+}
+
+// The lettered text of a panel. Panels from older scripts only have
+// dialogueText, said by speaker.
+export interface ComicTranslationSourcePanel {
+  panelNumber: number;
+  dialogue?: ComicDialogueLine[];
+  captions?: string[];
+  soundEffects?: string[];
+  dialogueText?: string;
+  speaker?: string;
+}
+
+export interface ComicTranslationPanel {
+  panelNumber: number;
+  dialogueText: string;
+  dialogue?: ComicDialogueLine[]; // Unset for panels from older scripts
+  captions?: string[];
+  soundEffects?: string[];
+}
+
+// Title and dialogue of a comic in another language. The panel images are
+// shared with the original; only the page is lettered again.
+export interface ComicTranslation {
+  language: string;
+  title: string;
+  panels: ComicTranslationPanel[];
+  page?: ComicPageImage; // The page lettered in this language
+  translatedAt: string; // ISO timestamp
+  stalePanels?: number[]; // Panels whose text changed since; shown untranslated
+}
+
+// Datastore key used to pass the original text from the prompt node to the
+// response parser
+export const COMIC_TRANSLATION_DATASTORE_KEY = 'comicTranslationSource';
+
+// Shape the LLM must return for a translation
+const translatedText = z.string().trim();
+
+const comicTranslationSchema = z.object({
+  title: z.string().trim().min(1, 'must not be empty'),
+  panels: z.array(
+    z.object({
+      panelNumber: z.number().int(),
+      dialogue: z
+        .array(
+          z.object({ speaker: z.string().optional(), text: translatedText })
+        )
+        .optional(),
+      captions: z.array(translatedText).optional(),
+      soundEffects: z.array(translatedText).optional(),
+      dialogueText: translatedText.optional(),
+    })
+  ),
+});
+
+type TranslatedPanel = z.infer<typeof comicTranslationSchema>['panels'][number];
+
+// The text of a finished comic, ready to be translated
+export function comicTranslationInput(
+  comic: ComicImageOutput,
+  language: string
+): ComicTranslationInput {
+  return {
+    sourceLanguage: comic.language ?? DEFAULT_COMIC_LANGUAGE,
+    language,
+    title: comic.title,
+    panels: comic.panels.map((panel) =>
+      panel.dialogue
+        ? {
+            panelNumber: panel.panelNumber,
+            dialogue: panel.dialogue,
+            captions: panel.captions ?? [],
+            soundEffects: panel.soundEffects ?? [],
+          }
+        : {
+            panelNumber: panel.panelNumber,
+            dialogueText: panel.dialogueText,
+            speaker: panel.speaker,
+          }
+    ),
+  };
+}
+
+// The comic with its title and lettering replaced by a translation. Panels
+// the translation does not cover keep their original text.
+export function applyComicTranslation(
+  comic: ComicImageOutput,
+  translation: ComicTranslation
+): ComicImageOutput {
+  return {
+    ...comic,
+    title: translation.title,
+    language: translation.language,
+    panels: comic.panels.map((panel) => {
+      const translated = translation.panels.find(
+        (candidate) => candidate.panelNumber === panel.panelNumber
+      );
+      if (!translated) {
+        return panel;
+      }
+      return translated.dialogue
+        ? {
+            ...panel,
+            dialogueText: translated.dialogueText,
+            dialogue: translated.dialogue,
+            captions: translated.captions,
+            soundEffects: translated.soundEffects,
+          }
+        : { ...panel, dialogueText: translated.dialogueText };
+    }),
+    page: translation.page,
+    translations: undefined,
+  };
+}
+
+// Whether two versions of a panel carry the same lettered text
+export function hasSamePanelText(
+  a: Omit<ComicTranslationPanel, 'panelNumber'>,
+  b: Omit<ComicTranslationPanel, 'panelNumber'>
+): boolean {
+  const text = (panel: Omit<ComicTranslationPanel, 'panelNumber'>) =>
+    JSON.stringify([
+      panel.dialogueText,
+      panel.dialogue ?? [],
+      panel.captions ?? [],
+      panel.soundEffects ?? [],
+    ]);
+  return text(a) === text(b);
+}
+
+// The translation without a panel whose text was edited, so the panel shows
+// its new text instead of the translation of its old one until the comic is
+// translated again
+export function withStalePanel(
+  translation: ComicTranslation,
+  panelNumber: number
+): ComicTranslation {
+  return {
+    ...translation,
+    panels: translation.panels.filter(
+      (panel) => panel.panelNumber !== panelNumber
+    ),
+    stalePanels: Array.from(
+      new Set([...(translation.stalePanels ?? []), panelNumber])
+    ).sort((a, b) => a - b),
+  };
+}
+
+// Custom node that asks the LLM to translate a comic's title and dialogue
+export class ComicTranslationPromptNode extends CustomNode {
+  process(
+    context: ProcessContext,
+    input: ComicTranslationInput
+  ): GraphTypes.LLMChatRequest {
+    console.log(
+      `🌐 Translating "${input.title}" from ${languageName(input.sourceLanguage)} into ${languageName(input.language)}`
+    );
+
+    const prompt = buildComicTranslationPrompt(input);
+    const datastore = context.getDatastore();
+    datastore.add(COMIC_TRANSLATION_DATASTORE_KEY, input);
+    datastore.add(COMIC_PROMPT_TOKENS_DATASTORE_KEY, estimateTokens(prompt));
+
+    return new GraphTypes.LLMChatRequest({
+      messages: [{ role: 'user', content: prompt }],
+    });
+  }
+}
+
+function buildComicTranslationPrompt(input: ComicTranslationInput): string {
+  const source = languageName(input.sourceLanguage);
+  const target = languageName(input.language);
+  const comic = {
+    title: input.title,
+    panels: input.panels,
+  };
+
+  return `You are a comic book translator. Translate the title, dialogue, captions and sound effects of this comic from ${source} into ${target}:
+
+${JSON.stringify(comic, null, 2)}
+
+Format your response as a JSON object with this exact structure, with each panel holding the same fields as in the comic above:
+{
+  "title": "The title in ${target}",
+  "panels": [
+    {
+      "panelNumber": 1,
+      "dialogue": [{ "speaker": "Name", "text": "The line in ${target}" }],
+      "captions": ["The caption in ${target}"],
+      "soundEffects": ["The sound effect in ${target}"]
+    },
+    {
+      "panelNumber": 2,
+      "dialogueText": "The dialogue of a panel that only has dialogueText, in ${target}"
+    }
+  ]
+}
+
+Guidelines:
+- Translate every panel and keep its panelNumber
+- Keep the number and order of dialogue lines, captions and sound effects in each panel, and each line's speaker
+- Panels with empty dialogueText keep an empty dialogueText
+- Use the sound effects (onomatopoeia) a comic in ${target} would use
+- Keep each line about as short as the original, so it still fits its speech bubble
+- Keep the tone and each speaker's voice; adapt jokes and idioms instead of translating them word for word
+- Keep character names as they are
+
+IMPORTANT: Return ONLY the JSON object, no additional text or formatting.`;
+}
+
+// Parse and validate the LLM's translation. Throws when it does not cover
+// exactly the comic's text, since a half-translated comic is not usable.
+export function parseComicTranslationResponse(
+  llmResponse: string,
+  source: ComicTranslationInput
+): ComicTranslation {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(stripCodeFence(llmResponse));
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    throw new Error(`The translation is not valid JSON: ${message}`);
+  }
+
+  const result = comicTranslationSchema.safeParse(parsed);
+  if (!result.success) {
+    throw new Error(
+      `The translation failed validation: ${describeIssues(result.error).join('; ')}`
+    );
+  }
+
+  const translated = new Map(
+    result.data.panels.map((panel) => [panel.panelNumber, panel])
+  );
+  const panels: ComicTranslationPanel[] = [];
+  const incomplete: number[] = [];
+  for (const panel of source.panels) {
+    const translation = translatePanel(
+      panel,
+      translated.get(panel.panelNumber)
+    );
+    if (translation) {
+      panels.push(translation);
+    } else {
+      incomplete.push(panel.panelNumber);
+    }
+  }
+  if (incomplete.length > 0) {
+    throw new Error(
+      `The translation is missing text of panel(s) ${incomplete.join(', ')}`
+    );
+  }
+
+  return {
+    language: source.language,
+    title: result.data.title,
+    panels,
+    translatedAt: new Date().toISOString(),
+  };
+}
+
+// A panel's translated text, or undefined when the translation leaves out
+// some of it. Speakers are kept from the original, and panels without text
+// stay silent whatever the LLM returned.
+function translatePanel(
+  panel: ComicTranslationSourcePanel,
+  translated: TranslatedPanel | undefined
+): ComicTranslationPanel | undefined {
+  if (!panel.dialogue) {
+    const original = panel.dialogueText?.trim() ?? '';
+    if (!original) {
+      return { panelNumber: panel.panelNumber, dialogueText: '' };
+    }
+    return translated?.dialogueText
+      ? {
+          panelNumber: panel.panelNumber,
+          dialogueText: translated.dialogueText,
+        }
+      : undefined;
+  }
+
+  const captions = panel.captions ?? [];
+  const soundEffects = panel.soundEffects ?? [];
+  const complete = (texts: string[] | undefined, count: number) =>
+    count === 0 || (texts?.length === count && texts.every(Boolean));
+  if (
+    !complete(
+      translated?.dialogue?.map((line) => line.text),
+      panel.dialogue.length
+    ) ||
+    !complete(translated?.captions, captions.length) ||
+    !complete(translated?.soundEffects, soundEffects.length)
+  ) {
+    return undefined;
+  }
+
+  const dialogue = panel.dialogue.map((line, index) => ({
+    speaker: line.speaker,
+    text: translated!.dialogue![index].text,
+  }));
+  return {
+    panelNumber: panel.panelNumber,
+    dialogueText: formatDialogueText(dialogue),
+    dialogue,
+    captions: captions.length > 0 ? translated!.captions! : [],
+    soundEffects: soundEffects.length > 0 ? translated!.soundEffects! : [],
+  };
+}
@@ -0,0 +1,82 @@
+// Parts of generating a comic that are timed separately
+export type ComicStage =
+  | 'script'
+  | 'render'
+  | 'panel_regeneration'
+  | 'translation';
+
+// Why part of a comic failed
+export interface ComicFailure {
+  stage: ComicStage;
+  reason: string;
+  at: string; // ISO timestamp
+}
+
+// Time spent in one stage, over every time it ran
+export interface ComicStageTiming {
+  runs: number;
+  totalMs: number;
+}
+
+// Provider usage and cost of one comic, including panel regenerations
+export interface ComicUsage {
+  llmCalls: number;
+  llmPromptTokens: number; // Estimated, see estimateTokens
+  llmCompletionTokens: number; // Estimated, see estimateTokens
+  imageCalls: number; // Every attempt, including retries
+  imageRetries: number;
+  imageFailures: number; // Panels that failed after all retries
+  // Reused instead of generated; missing on comics from before caching
+  scriptCacheHits?: number;
+  imageCacheHits?: number;
+  stages: Partial<Record<ComicStage, ComicStageTiming>>;
+  failures: ComicFailure[];
+  estimatedCostUsd: number; // Based on the models config pricing
+}
+
+export function createComicUsage(): ComicUsage {
+  return {
+    llmCalls: 0,
+    llmPromptTokens: 0,
+    llmCompletionTokens: 0,
+    imageCalls: 0,
+    imageRetries: 0,
+    imageFailures: 0,
+    scriptCacheHits: 0,
+    imageCacheHits: 0,
+    stages: {},
+    failures: [],
+    estimatedCostUsd: 0,
+  };
+}
+
+// The LLM node does not report token counts, so they are estimated from the
+// text at roughly four characters per token
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+// Add the usage of one comic to a running total
+export function addComicUsage(total: ComicUsage, usage: ComicUsage): void {
+  total.llmCalls += usage.llmCalls;
+  total.llmPromptTokens += usage.llmPromptTokens;
+  total.llmCompletionTokens += usage.llmCompletionTokens;
+  total.imageCalls += usage.imageCalls;
+  total.imageRetries += usage.imageRetries;
+  total.imageFailures += usage.imageFailures;
+  total.scriptCacheHits =
+    (total.scriptCacheHits ?? 0) + (usage.scriptCacheHits ?? 0);
+  total.imageCacheHits =
+    (total.imageCacheHits ?? 0) + (usage.imageCacheHits ?? 0);
+  total.estimatedCostUsd += usage.estimatedCostUsd;
+  total.failures.push(...usage.failures);
+
+  for (const [stage, timing] of Object.entries(usage.stages)) {
+    const stageTotal = (total.stages[stage as ComicStage] ??= {
+      runs: 0,
+      totalMs: 0,
+    });
+    stageTotal.runs += timing.runs;
+    stageTotal.totalMs += timing.totalMs;
+  }
+}
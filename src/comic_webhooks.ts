@@ -0,0 +1,207 @@
+import axios from 'axios';
+import crypto from 'crypto';
+import { v4 as uuidv4 } from 'uuid';
+import { sleep } from './concurrency';
+import { assertPublicUrl, lookupPublicAddress } from './url_safety';
+
+// Where to POST a comic's final status, given with the generation request
+export interface ComicCallback {
+  url: string;
+  // Deliveries are signed with the request's own secret, which is held in
+  // memory only; with WEBHOOK_SIGNING_SECRET otherwise
+  hasSecret?: boolean;
+}
+
+// A callback as requested, with the secret kept apart from what is stored
+export interface RequestedComicCallback {
+  callback: ComicCallback;
+  secret?: string;
+}
+
+// One attempt to deliver a webhook, kept in the comic's delivery log
+export interface WebhookDeliveryAttempt {
+  deliveryId: string; // Shared by every attempt of one delivery
+  event: string; // Comic status that was reported
+  attempt: number; // Starts at 1
+  attemptedAt: string; // ISO timestamp
+  durationMs: number;
+  statusCode?: number; // Missing when no response was received
+  error?: string;
+  delivered: boolean;
+}
+
+// Signature header: "sha256=" followed by the hex HMAC-SHA256 of
+// "<timestamp>.<body>", keyed with the callback secret
+export const WEBHOOK_SIGNATURE_HEADER = 'X-Comic-Signature';
+export const WEBHOOK_TIMESTAMP_HEADER = 'X-Comic-Timestamp';
+
+const WEBHOOK_MAX_ATTEMPTS = Number(process.env.WEBHOOK_MAX_ATTEMPTS ?? 5);
+const WEBHOOK_TIMEOUT_MS =
+  Number(process.env.WEBHOOK_TIMEOUT_SECONDS ?? 10) * 1000;
+
+// Callback secrets by comic id. They never go into the stored comic, so
+// copies and backups of the data directory do not carry them; a restart
+// forgets them.
+const callbackSecrets = new Map<string, string>();
+
+export function rememberCallbackSecret(requestId: string, secret: string) {
+  callbackSecrets.set(requestId, secret);
+}
+
+export function forgetCallbackSecret(requestId: string) {
+  callbackSecrets.delete(requestId);
+}
+
+// Validate the optional "callbackUrl" and "callbackSecret" fields of a
+// generation request. Returns an error message when they are invalid.
+export function parseComicCallback(body: {
+  callbackUrl?: unknown;
+  callbackSecret?: unknown;
+}): RequestedComicCallback | undefined | string {
+  const { callbackUrl, callbackSecret } = body;
+
+  if (callbackUrl === undefined) {
+    return callbackSecret === undefined
+      ? undefined
+      : 'callbackSecret requires a callbackUrl';
+  }
+
+  if (typeof callbackUrl !== 'string') {
+    return 'callbackUrl must be a string';
+  }
+  let url: URL;
+  try {
+    url = assertPublicUrl(callbackUrl);
+  } catch (error) {
+    return (error as Error).message.replace(/^URL/, 'callbackUrl');
+  }
+
+  if (
+    callbackSecret !== undefined &&
+    (typeof callbackSecret !== 'string' || callbackSecret.length === 0)
+  ) {
+    return 'callbackSecret must be a non-empty string';
+  }
+
+  return {
+    callback: {
+      url: url.toString(),
+      hasSecret: callbackSecret === undefined ? undefined : true,
+    },
+    secret: callbackSecret,
+  };
+}
+
+export function signWebhookPayload(
+  secret: string,
+  timestamp: string,
+  body: string
+): string {
+  const hmac = crypto
+    .createHmac('sha256', secret)
+    .update(`${timestamp}.${body}`)
+    .digest('hex');
+  return `sha256=${hmac}`;
+}
+
+// POST the payload to the comic's callback, retrying with exponential
+// backoff until it answers with a 2xx status or WEBHOOK_MAX_ATTEMPTS is
+// reached. Client errors other than 408 and 429 are not retried. Every
+// attempt is reported to onAttempt. Resolves to whether the webhook was
+// delivered.
+export async function deliverWebhook(
+  requestId: string,
+  callback: ComicCallback,
+  event: string,
+  payload: unknown,
+  onAttempt: (attempt: WebhookDeliveryAttempt) => Promise<void>
+): Promise<boolean> {
+  const deliveryId = uuidv4();
+  const body = JSON.stringify(payload);
+  const secret = callback.hasSecret
+    ? callbackSecrets.get(requestId)
+    : process.env.WEBHOOK_SIGNING_SECRET;
+
+  // Sent unsigned, it would be rejected by a receiver checking signatures
+  if (callback.hasSecret && secret === undefined) {
+    await onAttempt({
+      deliveryId,
+      event,
+      attempt: 1,
+      attemptedAt: new Date().toISOString(),
+      durationMs: 0,
+      error: 'The callback secret was forgotten when the server restarted',
+      delivered: false,
+    });
+    return false;
+  }
+
+  for (let attempt = 1; attempt <= WEBHOOK_MAX_ATTEMPTS; attempt++) {
+    // Signed again on every attempt, so receivers can reject stale timestamps
+    const timestamp = Math.floor(Date.now() / 1000).toString();
+    const headers: Record<string, string> = {
+      'Content-Type': 'application/json',
+      'X-Comic-Event': event,
+      'X-Comic-Delivery': deliveryId,
+      [WEBHOOK_TIMESTAMP_HEADER]: timestamp,
+    };
+    if (secret) {
+      headers[WEBHOOK_SIGNATURE_HEADER] = signWebhookPayload(
+        secret,
+        timestamp,
+        body
+      );
+    }
+
+    const startedAt = Date.now();
+    let statusCode: number | undefined;
+    let error: string | undefined;
+    try {
+      const response = await axios.post(callback.url, body, {
+        headers,
+        timeout: WEBHOOK_TIMEOUT_MS,
+        maxRedirects: 0,
+        // The host was checked when the comic was requested, but its name
+        // may resolve elsewhere by now
+        lookup: lookupPublicAddress,
+        validateStatus: () => true,
+      });
+      statusCode = response.status;
+      if (statusCode < 200 || statusCode >= 300) {
+        error = `Callback answered with status ${statusCode}`;
+      }
+    } catch (requestError) {
+      error =
+        requestError instanceof Error
+          ? requestError.message
+          : String(requestError);
+    }
+
+    const delivered = error === undefined;
+    await onAttempt({
+      deliveryId,
+      event,
+      attempt,
+      attemptedAt: new Date(startedAt).toISOString(),
+      durationMs: Date.now() - startedAt,
+      statusCode,
+      error,
+      delivered,
+    });
+
+    const retryable =
+      statusCode === undefined ||
+      statusCode >= 500 ||
+      statusCode === 408 ||
+      statusCode === 429;
+    if (delivered || !retryable) {
+      return delivered;
+    }
+
+    if (attempt < WEBHOOK_MAX_ATTEMPTS) {
+      await sleep(Math.min(1000 * Math.pow(2, attempt), 60000));
+    }
+  }
+
+  return false;
+}
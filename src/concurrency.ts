@@ -0,0 +1,108 @@
+// Default number of concurrent calls to a single LLM or image provider
+const DEFAULT_PROVIDER_MAX_CONCURRENCY = 4;
+
+// Reject with the signal's reason as soon as it is aborted. The original
+// promise keeps running, so its eventual rejection is swallowed here.
+export function abortable<T>(
+  promise: Promise<T>,
+  signal?: AbortSignal
+): Promise<T> {
+  if (!signal) {
+    return promise;
+  }
+
+  promise.catch(() => undefined);
+
+  return new Promise<T>((resolve, reject) => {
+    if (signal.aborted) {
+      reject(signal.reason);
+      return;
+    }
+
+    const onAbort = () => reject(signal.reason);
+    signal.addEventListener('abort', onAbort, { once: true });
+    promise.then(resolve, reject).finally(() => {
+      signal.removeEventListener('abort', onAbort);
+    });
+  });
+}
+
+// Wait for the given time, or until the signal is aborted
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return abortable(new Promise((resolve) => setTimeout(resolve, ms)), signal);
+}
+
+// Runs at most `limit` tasks at a time; the rest wait in FIFO order
+export class ConcurrencyLimiter {
+  private readonly limit: number;
+  private active = 0;
+  private readonly waiting: Array<() => void> = [];
+
+  constructor(limit: number) {
+    this.limit = Math.max(1, limit);
+  }
+
+  async run<T>(task: () => Promise<T>, signal?: AbortSignal): Promise<T> {
+    await this.acquire(signal);
+    try {
+      return await task();
+    } finally {
+      this.release();
+    }
+  }
+
+  private acquire(signal?: AbortSignal): Promise<void> {
+    signal?.throwIfAborted();
+
+    if (this.active < this.limit) {
+      this.active++;
+      return Promise.resolve();
+    }
+
+    return new Promise<void>((resolve, reject) => {
+      const grant = () => {
+        signal?.removeEventListener('abort', onAbort);
+        this.active++;
+        resolve();
+      };
+      const onAbort = () => {
+        const index = this.waiting.indexOf(grant);
+        if (index !== -1) {
+          this.waiting.splice(index, 1);
+        }
+        reject(signal!.reason);
+      };
+
+      this.waiting.push(grant);
+      signal?.addEventListener('abort', onAbort, { once: true });
+    });
+  }
+
+  private release() {
+    this.active--;
+    this.waiting.shift()?.();
+  }
+}
+
+const providerLimiters = new Map<string, ConcurrencyLimiter>();
+
+// Shared limiter for calls to one provider (e.g. "minimax" or "openai").
+// The limit comes from <PROVIDER>_MAX_CONCURRENCY, then
+// PROVIDER_MAX_CONCURRENCY, then defaults to 4.
+export function getProviderLimiter(provider: string): ConcurrencyLimiter {
+  let limiter = providerLimiters.get(provider);
+
+  if (!limiter) {
+    const limit = Number(
+      process.env[`${provider.toUpperCase()}_MAX_CONCURRENCY`] ??
+        process.env.PROVIDER_MAX_CONCURRENCY ??
+        DEFAULT_PROVIDER_MAX_CONCURRENCY
+    );
+    limiter = new ConcurrencyLimiter(
+      Number.isFinite(limit) ? limit : DEFAULT_PROVIDER_MAX_CONCURRENCY
+    );
+    providerLimiters.set(provider, limiter);
+  }
+
+  return limiter;
+}
@@ -0,0 +1,184 @@
+import axios from 'axios';
+import fs from 'fs';
+
+// One piece of text to check, labelled for the rejection reason
+// (e.g. "theme" or "panel 2 visual description")
+export interface ModerationItem {
+  field: string;
+  text: string;
+}
+
+export type ModerationVerdict =
+  | { allowed: true }
+  | { allowed: false; reason: string };
+
+// Common interface for content checks run on prompts and scripts
+export interface ContentModerator {
+  readonly name: string;
+  moderate(items: ModerationItem[]): Promise<ModerationVerdict>;
+}
+
+// Rejects text containing any blocked word or phrase, matched
+// case-insensitively on word boundaries
+export class BlocklistModerator implements ContentModerator {
+  readonly name = 'blocklist';
+  private readonly patterns: Array<{ term: string; pattern: RegExp }>;
+
+  constructor(terms: string[]) {
+    this.patterns = terms
+      .map((term) => term.trim().toLowerCase())
+      .filter(Boolean)
+      .map((term) => ({
+        term,
+        pattern: new RegExp(
+          `(^|[^\\p{L}\\p{N}])${escapeRegExp(term)}($|[^\\p{L}\\p{N}])`,
+          'iu'
+        ),
+      }));
+  }
+
+  async moderate(items: ModerationItem[]): Promise<ModerationVerdict> {
+    for (const item of items) {
+      const match = this.patterns.find(({ pattern }) =>
+        pattern.test(item.text)
+      );
+      if (match) {
+        return {
+          allowed: false,
+          reason: `The ${item.field} contains the blocked term "${match.term}"`,
+        };
+      }
+    }
+
+    return { allowed: true };
+  }
+}
+
+// Classifies text with the OpenAI moderation endpoint
+export class OpenAIModerationClassifier implements ContentModerator {
+  readonly name = 'openai';
+  private readonly apiKey: string;
+  private readonly model: string;
+
+  constructor() {
+    if (!process.env.OPENAI_API_KEY) {
+      throw new Error(
+        'OPENAI_API_KEY environment variable is required for the openai content moderator'
+      );
+    }
+    this.apiKey = process.env.OPENAI_API_KEY;
+    this.model =
+      process.env.OPENAI_MODERATION_MODEL || 'omni-moderation-latest';
+  }
+
+  async moderate(items: ModerationItem[]): Promise<ModerationVerdict> {
+    if (items.length === 0) {
+      return { allowed: true };
+    }
+
+    const response = await axios.post(
+      'https://api.openai.com/v1/moderations',
+      { model: this.model, input: items.map((item) => item.text) },
+      {
+        headers: { Authorization: `Bearer ${this.apiKey}` },
+        timeout: 30000,
+      }
+    );
+
+    const results: Array<{
+      flagged: boolean;
+      categories: Record<string, boolean>;
+    }> = response.data?.results ?? [];
+
+    const index = results.findIndex((result) => result.flagged);
+    if (index === -1) {
+      return { allowed: true };
+    }
+
+    const categories = Object.entries(results[index].categories)
+      .filter(([, flagged]) => flagged)
+      .map(([category]) => category);
+    return {
+      allowed: false,
+      reason: `The ${items[index].field} was flagged for ${categories.join(', ') || 'unsafe content'}`,
+    };
+  }
+}
+
+// Blocked terms from CONTENT_BLOCKLIST (comma-separated) and
+// CONTENT_BLOCKLIST_FILE (one term per line, # for comments)
+function readBlocklist(): string[] {
+  const terms = (process.env.CONTENT_BLOCKLIST ?? '').split(',');
+
+  if (process.env.CONTENT_BLOCKLIST_FILE) {
+    const lines = fs
+      .readFileSync(process.env.CONTENT_BLOCKLIST_FILE, 'utf8')
+      .split('\n')
+      .filter((line) => !line.trim().startsWith('#'));
+    terms.push(...lines);
+  }
+
+  return terms;
+}
+
+// Registry of available moderators, keyed by their config name
+const contentModeratorFactories = {
+  blocklist: () => new BlocklistModerator(readBlocklist()),
+  openai: () => new OpenAIModerationClassifier(),
+} satisfies Record<string, () => ContentModerator>;
+
+export type ContentModeratorName = keyof typeof contentModeratorFactories;
+
+export const CONTENT_MODERATOR_NAMES = Object.keys(
+  contentModeratorFactories
+) as ContentModeratorName[];
+
+function isContentModeratorName(name: string): name is ContentModeratorName {
+  return (CONTENT_MODERATOR_NAMES as string[]).includes(name);
+}
+
+let configuredModerators: ContentModerator[] | undefined;
+
+// Moderators selected through the CONTENT_MODERATORS env variable, a
+// comma-separated list run in order ("none" disables moderation). Throws if
+// one is unknown or misconfigured.
+export function getConfiguredModerators(): ContentModerator[] {
+  if (!configuredModerators) {
+    const names = (process.env.CONTENT_MODERATORS ?? 'blocklist')
+      .split(',')
+      .map((name) => name.trim().toLowerCase())
+      .filter((name) => name && name !== 'none');
+
+    configuredModerators = names.map((name) => {
+      if (!isContentModeratorName(name)) {
+        throw new Error(
+          `Unknown content moderator "${name}". Expected one of: ${CONTENT_MODERATOR_NAMES.join(', ')}, none`
+        );
+      }
+      return contentModeratorFactories[name]();
+    });
+  }
+
+  return configuredModerators;
+}
+
+// Run the items through every moderator; the first rejection wins
+export async function moderateContent(
+  items: ModerationItem[],
+  moderators: ContentModerator[] = getConfiguredModerators()
+): Promise<ModerationVerdict> {
+  const checked = items.filter((item) => item.text.trim().length > 0);
+
+  for (const moderator of moderators) {
+    const verdict = await moderator.moderate(checked);
+    if (!verdict.allowed) {
+      return verdict;
+    }
+  }
+
+  return { allowed: true };
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
@@ -0,0 +1,125 @@
+import { CustomNode, ProcessContext } from '@inworld/runtime/graph';
+import { ComicStoryInput, ComicStoryOutput } from './comic_story_node';
+import { describeCastMember } from './comic_cast';
+import { ComicTranslation } from './comic_translation_node';
+import {
+  ModerationItem,
+  ModerationVerdict,
+  moderateContent,
+} from './content_moderator';
+
+// Graph errors only carry a message, so rejections are marked to tell them
+// apart from failures
+const CONTENT_REJECTED_MARKER = '[content_rejected] ';
+
+// Raised when moderation rejects a prompt or script
+export class ContentRejectedError extends Error {
+  readonly reason: string;
+
+  constructor(reason: string) {
+    super(`${CONTENT_REJECTED_MARKER}${reason}`);
+    this.name = 'ContentRejectedError';
+    this.reason = reason;
+  }
+}
+
+// Recover a rejection from a graph error message, which wraps the message
+// thrown by the node
+export function parseContentRejection(
+  message: string
+): ContentRejectedError | undefined {
+  const index = message.indexOf(CONTENT_REJECTED_MARKER);
+  return index === -1
+    ? undefined
+    : new ContentRejectedError(
+        message.slice(index + CONTENT_REJECTED_MARKER.length)
+      );
+}
+
+function throwIfRejected(verdict: ModerationVerdict) {
+  if (!verdict.allowed) {
+    console.warn(`🚫 Content rejected: ${verdict.reason}`);
+    throw new ContentRejectedError(verdict.reason);
+  }
+}
+
+// Checks the user's cast, art style and theme before they are sent
+// to the LLM, passing the input through unchanged
+export class ComicPromptSafetyNode extends CustomNode {
+  async process(
+    _context: ProcessContext,
+    input: ComicStoryInput
+  ): Promise<ComicStoryInput> {
+    const items: ModerationItem[] = [
+      ...input.cast.map((member, index) => ({
+        field: `character ${index + 1}`,
+        text: describeCastMember(member),
+      })),
+      { field: 'art style', text: input.artStyle },
+      { field: 'theme', text: input.theme ?? '' },
+    ];
+
+    throwIfRejected(await moderateContent(items));
+    return input;
+  }
+}
+
+// Checks the script's dialogue and visual descriptions before any image is
+// generated, passing the script through unchanged
+export class ComicScriptSafetyNode extends CustomNode {
+  async process(
+    _context: ProcessContext,
+    input: ComicStoryOutput
+  ): Promise<ComicStoryOutput> {
+    const items: ModerationItem[] = [
+      { field: 'title', text: input.title ?? '' },
+      ...input.panels.flatMap((panel) => [
+        ...panelTextItems(panel),
+        {
+          field: `panel ${panel.panelNumber} visual description`,
+          text: panel.visualDescription,
+        },
+      ]),
+    ];
+
+    throwIfRejected(await moderateContent(items));
+    return input;
+  }
+}
+
+// Checks a translated title and dialogue before they are stored, passing the
+// translation through unchanged
+export class ComicTranslationSafetyNode extends CustomNode {
+  async process(
+    _context: ProcessContext,
+    input: ComicTranslation
+  ): Promise<ComicTranslation> {
+    const items: ModerationItem[] = [
+      { field: 'title', text: input.title },
+      ...input.panels.flatMap(panelTextItems),
+    ];
+
+    throwIfRejected(await moderateContent(items));
+    return input;
+  }
+}
+
+// The lettered text of a panel: its dialogue, captions and sound effects
+function panelTextItems(panel: {
+  panelNumber: number;
+  dialogueText: string;
+  captions?: string[];
+  soundEffects?: string[];
+}): ModerationItem[] {
+  return [
+    { field: `panel ${panel.panelNumber} dialogue`, text: panel.dialogueText },
+    ...(panel.captions ?? []).map((text) => ({
+      field: `panel ${panel.panelNumber} caption`,
+      text,
+    })),
+    ...(panel.soundEffects ?? []).map((text) => ({
+      field: `panel ${panel.panelNumber} sound effect`,
+      text,
+    })),
+  ];
+}
@@ -0,0 +1,284 @@
+import fs from 'fs';
+import { z } from 'zod';
+
+// LLM used to write a comic's script
+export interface LLMOptions {
+  provider: string;
+  model: string;
+  temperature?: number; // Provider default when unset
+}
+
+// Image generation parameters for a comic's panels
+export interface ImageOptions {
+  model: string;
+  aspectRatio: string; // "width:height", e.g. "16:9"
+  resolution: number; // Length of the longer side, in pixels
+  promptOptimizer: boolean;
+  candidates?: number; // Images generated per panel to choose from; 1 when unset
+}
+
+// Candidate images per panel a request may ask for, unless the models config
+// says otherwise
+const DEFAULT_MAX_CANDIDATES = 4;
+
+// Models and parameters a comic is generated with, stored on the request so
+// regenerated panels match the rest of the comic
+export interface ComicGenerationOptions {
+  llm: LLMOptions;
+  image: ImageOptions;
+}
+
+const aspectRatioSchema = z
+  .string()
+  .regex(/^[1-9]\d*:[1-9]\d*$/, 'must look like "16:9"');
+
+// Server-side limits on what a request may choose, loaded from the file in
+// COMIC_MODELS_CONFIG
+const modelsConfigSchema = z.object({
+  llm: z.object({
+    default: z.object({
+      provider: z.string().min(1),
+      model: z.string().min(1),
+      temperature: z.number().optional(),
+    }),
+    allowed: z.record(z.string(), z.array(z.string().min(1)).min(1)),
+    temperature: z.object({ min: z.number(), max: z.number() }),
+  }),
+  image: z.object({
+    default: z.object({
+      model: z.string().min(1),
+      aspectRatio: aspectRatioSchema,
+      resolution: z.number().int().positive(),
+      promptOptimizer: z.boolean(),
+      candidates: z.number().int().positive().default(1),
+    }),
+    models: z.array(z.string().min(1)).min(1),
+    aspectRatios: z.array(aspectRatioSchema).min(1),
+    resolutions: z.array(z.number().int().positive()).min(1),
+    maxCandidates: z.number().int().positive().default(DEFAULT_MAX_CANDIDATES),
+  }),
+  // Prices used to estimate what each comic cost; models without a price
+  // are counted as free
+  pricing: z
+    .object({
+      // Keyed by "provider/model"
+      llm: z.record(
+        z.string(),
+        z.object({
+          promptPer1kTokens: z.number().nonnegative(),
+          completionPer1kTokens: z.number().nonnegative(),
+        })
+      ),
+      // Keyed by image model
+      image: z.record(
+        z.string(),
+        z.object({ perImage: z.number().nonnegative() })
+      ),
+    })
+    .optional(),
+});
+
+export type ModelsConfig = z.infer<typeof modelsConfigSchema>;
+
+// Used when no config file is set: only the original models are allowed
+export const DEFAULT_MODELS_CONFIG: ModelsConfig = {
+  llm: {
+    default: { provider: 'openai', model: 'gpt-5-mini' },
+    allowed: { openai: ['gpt-5-mini'] },
+    temperature: { min: 0, max: 2 },
+  },
+  image: {
+    default: {
+      model: 'image-01',
+      aspectRatio: '1:1',
+      resolution: 512,
+      promptOptimizer: true,
+      candidates: 1,
+    },
+    models: ['image-01'],
+    aspectRatios: ['1:1', '4:3', '3:4', '16:9', '9:16'],
+    resolutions: [512, 768, 1024],
+    maxCandidates: DEFAULT_MAX_CANDIDATES,
+  },
+  pricing: {
+    llm: {
+      'openai/gpt-5-mini': {
+        promptPer1kTokens: 0.00025,
+        completionPer1kTokens: 0.002,
+      },
+    },
+    image: { 'image-01': { perImage: 0.0035 } },
+  },
+};
+
+// Read and validate the models config file. Throws if it is invalid, or if
+// its defaults are not among its allowed values.
+export function loadModelsConfig(filePath?: string): ModelsConfig {
+  if (!filePath) {
+    return DEFAULT_MODELS_CONFIG;
+  }
+
+  const result = modelsConfigSchema.safeParse(
+    JSON.parse(fs.readFileSync(filePath, 'utf8'))
+  );
+  if (!result.success) {
+    const issues = result.error.issues.map(
+      (issue) => `${issue.path.join('.')}: ${issue.message}`
+    );
+    throw new Error(`Invalid models config ${filePath}: ${issues.join('; ')}`);
+  }
+
+  defaultGenerationOptions(result.data);
+  return result.data;
+}
+
+// The options used when a request does not choose any. Throws if the
+// config's defaults are not among its allowed values.
+export function defaultGenerationOptions(
+  config: ModelsConfig
+): ComicGenerationOptions {
+  const defaults = resolveGenerationOptions({}, config);
+  if (typeof defaults === 'string') {
+    throw new Error(`Invalid models config defaults: ${defaults}`);
+  }
+  return defaults;
+}
+
+// Validate the optional "llm" and "image" fields of a generation request
+// against the config, filling in defaults. Returns an error message when a
+// choice is not allowed.
+export function resolveGenerationOptions(
+  body: { llm?: unknown; image?: unknown },
+  config: ModelsConfig
+): ComicGenerationOptions | string {
+  const llm = body.llm ?? {};
+  const image = body.image ?? {};
+
+  if (typeof llm !== 'object' || llm === null || Array.isArray(llm)) {
+    return 'llm must be an object';
+  }
+  if (typeof image !== 'object' || image === null || Array.isArray(image)) {
+    return 'image must be an object';
+  }
+
+  const fields = llm as Record<string, unknown>;
+  const provider = fields.provider ?? config.llm.default.provider;
+  const allowedModels =
+    typeof provider === 'string' && Object.hasOwn(config.llm.allowed, provider)
+      ? config.llm.allowed[provider]
+      : undefined;
+  if (typeof provider !== 'string' || !allowedModels) {
+    return `llm.provider must be one of: ${Object.keys(config.llm.allowed).join(', ')}`;
+  }
+
+  // Other providers default to their first allowed model
+  const {
+    model = provider === config.llm.default.provider
+      ? config.llm.default.model
+      : allowedModels[0],
+    temperature = config.llm.default.temperature,
+  } = fields;
+
+  if (typeof model !== 'string' || !allowedModels.includes(model)) {
+    return `llm.model must be one of: ${allowedModels.join(', ')}`;
+  }
+  if (
+    temperature !== undefined &&
+    (typeof temperature !== 'number' ||
+      temperature < config.llm.temperature.min ||
+      temperature > config.llm.temperature.max)
+  ) {
+    return `llm.temperature must be a number between ${config.llm.temperature.min} and ${config.llm.temperature.max}`;
+  }
+
+  const {
+    model: imageModel = config.image.default.model,
+    aspectRatio = config.image.default.aspectRatio,
+    resolution = config.image.default.resolution,
+    promptOptimizer = config.image.default.promptOptimizer,
+    candidates = config.image.default.candidates,
+  } = image as Record<string, unknown>;
+  const { maxCandidates } = config.image;
+
+  if (
+    typeof imageModel !== 'string' ||
+    !config.image.models.includes(imageModel)
+  ) {
+    return `image.model must be one of: ${config.image.models.join(', ')}`;
+  }
+  if (
+    typeof aspectRatio !== 'string' ||
+    !config.image.aspectRatios.includes(aspectRatio)
+  ) {
+    return `image.aspectRatio must be one of: ${config.image.aspectRatios.join(', ')}`;
+  }
+  if (
+    typeof resolution !== 'number' ||
+    !config.image.resolutions.includes(resolution)
+  ) {
+    return `image.resolution must be one of: ${config.image.resolutions.join(', ')}`;
+  }
+  if (typeof promptOptimizer !== 'boolean') {
+    return 'image.promptOptimizer must be a boolean';
+  }
+  if (
+    typeof candidates !== 'number' ||
+    !Number.isInteger(candidates) ||
+    candidates < 1 ||
+    candidates > maxCandidates
+  ) {
+    return `image.candidates must be a whole number between 1 and ${maxCandidates}`;
+  }
+
+  return {
+    llm: { provider, model, temperature },
+    image: {
+      model: imageModel,
+      aspectRatio,
+      resolution,
+      promptOptimizer,
+      candidates,
+    },
+  };
+}
+
+// Panel size for the image options: the longer side is the resolution, and
+// both sides are rounded to multiples of 8 as image models expect
+export function imageDimensions(image: ImageOptions): {
+  width: number;
+  height: number;
+} {
+  const [ratioWidth, ratioHeight] = image.aspectRatio.split(':').map(Number);
+  const scale = image.resolution / Math.max(ratioWidth, ratioHeight);
+  const roundTo8 = (size: number) => Math.max(8, Math.round(size / 8) * 8);
+
+  return {
+    width: roundTo8(ratioWidth * scale),
+    height: roundTo8(ratioHeight * scale),
+  };
+}
+
+// Estimated price in USD of one LLM call
+export function llmCostUsd(
+  config: ModelsConfig,
+  llm: LLMOptions,
+  promptTokens: number,
+  completionTokens: number
+): number {
+  const price = config.pricing?.llm[`${llm.provider}/${llm.model}`];
+  if (!price) {
+    return 0;
+  }
+  return (
+    (promptTokens / 1000) * price.promptPer1kTokens +
+    (completionTokens / 1000) * price.completionPer1kTokens
+  );
+}
+
+// Estimated price in USD of one generated image
+export function imageCostUsd(
+  config: ModelsConfig,
+  image: ImageOptions
+): number {
+  return config.pricing?.image[image.model]?.perImage ?? 0;
+}
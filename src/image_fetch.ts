@@ -0,0 +1,87 @@
+import axios from 'axios';
+import { Readable } from 'stream';
+import {
+  UnsafeUrlError,
+  assertPublicUrl,
+  lookupPublicAddress,
+} from './url_safety';
+
+export interface FetchedImage {
+  data: Buffer;
+  contentType: string;
+}
+
+export interface FetchImageOptions {
+  timeoutMs?: number;
+  // The URL was given by a user rather than an image provider: only public
+  // https: hosts are requested, and only image responses are read
+  untrusted?: boolean;
+}
+
+const DATA_URL_PATTERN = /^data:([^;,]+)?(;base64)?,(.*)$/s;
+const MAX_IMAGE_BYTES = 20 * 1024 * 1024;
+const MAX_IMAGE_REDIRECTS = 3;
+
+// Load image bytes from a remote URL or a data: URL
+export async function fetchImage(
+  imageUrl: string,
+  { timeoutMs = 30000, untrusted = false }: FetchImageOptions = {}
+): Promise<FetchedImage> {
+  const dataUrl = DATA_URL_PATTERN.exec(imageUrl);
+  if (dataUrl) {
+    const [, contentType = 'text/plain', base64, payload] = dataUrl;
+    return {
+      data: base64
+        ? Buffer.from(payload, 'base64')
+        : Buffer.from(decodeURIComponent(payload)),
+      contentType,
+    };
+  }
+
+  if (untrusted) {
+    assertPublicUrl(imageUrl);
+  }
+
+  const response = await axios.get<Readable>(imageUrl, {
+    responseType: 'stream',
+    timeout: timeoutMs,
+    maxRedirects: MAX_IMAGE_REDIRECTS,
+    ...(untrusted && {
+      lookup: lookupPublicAddress,
+      beforeRedirect: (options: Record<string, unknown>) => {
+        assertPublicUrl(String(options.href));
+      },
+    }),
+  });
+
+  // Checked before the body is read, so nothing else is downloaded
+  const contentType = String(
+    response.headers['content-type'] || 'application/octet-stream'
+  );
+  if (untrusted && !contentType.startsWith('image/')) {
+    response.data.destroy();
+    throw new UnsafeUrlError(`Expected an image but got ${contentType}`);
+  }
+  if (Number(response.headers['content-length']) > MAX_IMAGE_BYTES) {
+    response.data.destroy();
+    throw new Error(`Image is larger than ${MAX_IMAGE_BYTES} bytes`);
+  }
+
+  return { data: await readLimited(response.data), contentType };
+}
+
+// axios only enforces maxContentLength on buffered responses, so streamed
+// ones are counted as they are read
+async function readLimited(stream: Readable): Promise<Buffer> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of stream) {
+    size += chunk.length;
+    if (size > MAX_IMAGE_BYTES) {
+      stream.destroy();
+      throw new Error(`Image is larger than ${MAX_IMAGE_BYTES} bytes`);
+    }
+    chunks.push(chunk);
+  }
+  return Buffer.concat(chunks);
+}
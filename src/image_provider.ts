@@ -0,0 +1,68 @@
+import { MiniMaxImageProvider } from './minimax_image_provider';
+import { PlaceholderImageProvider } from './placeholder_image_provider';
+
+// Parameters for a single image generation call
+export interface ImageGenerationRequest {
+  prompt: string;
+  width: number;
+  height: number;
+  seed?: number; // Only sent to providers with supportsSeed
+  referenceImageUrl?: string; // Character reference, remote or data: URL
+  model?: string; // Provider default when unset
+  promptOptimizer?: boolean; // Let the provider rewrite the prompt
+  count?: number; // Images to generate from the prompt, 1 by default
+  signal?: AbortSignal; // Aborts the call when the comic job is cancelled
+}
+
+// One image returned by a generation call
+export interface GeneratedImage {
+  imageUrl: string; // Remote URL or data: URL
+}
+
+// Common interface for all image generation backends
+export interface ImageProvider {
+  readonly name: string;
+  readonly supportsSeed: boolean;
+  readonly supportsReferenceImage: boolean;
+  // Returns up to request.count images, at least one
+  generateImages(request: ImageGenerationRequest): Promise<GeneratedImage[]>;
+}
+
+// Registry of available providers, keyed by their config name
+const imageProviderFactories = {
+  minimax: () => new MiniMaxImageProvider(),
+  placeholder: () => new PlaceholderImageProvider(),
+} satisfies Record<string, () => ImageProvider>;
+
+export type ImageProviderName = keyof typeof imageProviderFactories;
+
+export const IMAGE_PROVIDER_NAMES = Object.keys(
+  imageProviderFactories
+) as ImageProviderName[];
+
+export const DEFAULT_IMAGE_PROVIDER: ImageProviderName = 'minimax';
+
+export function isImageProviderName(name: string): name is ImageProviderName {
+  return (IMAGE_PROVIDER_NAMES as string[]).includes(name);
+}
+
+// Read the image provider selected through the IMAGE_PROVIDER env variable
+export function getConfiguredImageProviderName(): ImageProviderName {
+  const name = (process.env.IMAGE_PROVIDER || DEFAULT_IMAGE_PROVIDER)
+    .trim()
+    .toLowerCase();
+
+  if (!isImageProviderName(name)) {
+    throw new Error(
+      `Unknown IMAGE_PROVIDER "${name}". Expected one of: ${IMAGE_PROVIDER_NAMES.join(', ')}`
+    );
+  }
+
+  return name;
+}
+
+// Create a provider instance. Throws if the provider is misconfigured
+// (e.g. a missing API key).
+export function createImageProvider(name: ImageProviderName): ImageProvider {
+  return imageProviderFactories[name]();
+}
@@ -3,99 +3,252 @@ import express from 'express';
 import { v4 as uuidv4 } from 'uuid';
 import path from 'path';
 import cors from 'cors';
-import {
-  GraphBuilder,
-  CustomNode,
-  ProcessContext,
-  RemoteLLMChatNode,
-  Graph,
-} from '@inworld/runtime/graph';
-import { GraphTypes } from '@inworld/runtime/common';
 import { stopInworldRuntime } from '@inworld/runtime';
 import {
-  ComicStoryGeneratorNode,
-  parseComicStoryResponse,
   ComicStoryInput,
+  ComicPanel,
+  ComicStoryOutput,
+  validateEditedPanel,
+  validateEditedScript,
 } from './comic_story_node';
-import { ComicImageGeneratorNode, ComicImageOutput } from './comic_image_node';
+import {
+  ComicLayoutTemplate,
+  COMIC_LAYOUT_TEMPLATES,
+  DEFAULT_LAYOUT_TEMPLATE,
+  DEFAULT_PANEL_COUNT,
+  isComicLayoutTemplate,
+  isValidPanelCount,
+  MAX_PANEL_COUNT,
+  MIN_PANEL_COUNT,
+} from './comic_layout';
+import { ComicImageOutput, ComicImagePanel } from './comic_image_node';
+import { composeComicPage } from './comic_page_node';
+import {
+  AssetStore,
+  characterReferenceImageUrl,
+  panelImageUrl,
+  panelVersionImageUrl,
+} from './asset_store';
+import { ComicProgressEvent, comicEvents, describeError } from './comic_events';
+import {
+  ComicRepository,
+  ComicRequest,
+  isComicInProgress,
+  JsonFileComicRepository,
+} from './comic_repository';
+import {
+  getRenderGraphs,
+  getScriptGraphs,
+  runComicGraph,
+  translateComicText,
+  writeComicScript,
+} from './comic_graphs';
+import {
+  createImageProvider,
+  getConfiguredImageProviderName,
+} from './image_provider';
+import {
+  CharacterRepository,
+  JsonFileCharacterRepository,
+  SavedCharacter,
+} from './character_repository';
+import { ComicCharacter, toComicCharacter } from './comic_characters';
+import { ComicCastMember, hasComicCast, parseComicCast } from './comic_cast';
+import { buildSeriesContext, seriesTitle, sortIssues } from './comic_series';
+import {
+  DEFAULT_COMIC_LANGUAGE,
+  INVALID_LANGUAGE_ERROR,
+  languageName,
+  normalizeLanguage,
+} from './comic_language';
+import {
+  applyComicTranslation,
+  ComicTranslation,
+  comicTranslationInput,
+  hasSamePanelText,
+  withStalePanel,
+} from './comic_translation_node';
+import { fetchImage } from './image_fetch';
+import { UnsafeUrlError } from './url_safety';
+import {
+  COMIC_EXPORT_FORMATS,
+  exportComic,
+  exportComicSeries,
+  isComicExportFormat,
+  UnsupportedExportTextError,
+} from './comic_export';
+import { comicJobs } from './comic_job_queue';
+import { authenticate, getUserId, ownerOf, parseApiKeys } from './auth';
+import { rateLimitPerUser } from './rate_limiter';
+import { JsonFileDailyQuota } from './comic_quota';
+import { ContentRejectedError } from './content_safety_node';
+import { getConfiguredModerators } from './content_moderator';
+import {
+  ComicGenerationOptions,
+  defaultGenerationOptions,
+  imageCostUsd,
+  llmCostUsd,
+  loadModelsConfig,
+  resolveGenerationOptions,
+} from './generation_options';
+import {
+  addComicUsage,
+  ComicStage,
+  ComicUsage,
+  createComicUsage,
+} from './comic_usage';
+import { Counter, Gauge, MetricsRegistry, Summary } from './comic_metrics';
+import {
+  ComicCallback,
+  deliverWebhook,
+  forgetCallbackSecret,
+  parseComicCallback,
+  rememberCallbackSecret,
+} from './comic_webhooks';
 
 const app = express();
 const PORT = process.env.PORT || 3000;
 
+// API keys as comma-separated "userId:apiKey" pairs; without any, the API is
+// open and everything belongs to one anonymous user
+const API_KEYS = parseApiKeys(process.env.COMIC_API_KEYS);
+
+// Browser origins allowed to call the API from other sites (none by default)
+const CORS_ORIGINS = (process.env.CORS_ORIGINS ?? '')
+  .split(',')
+  .map((origin) => origin.trim())
+  .filter(Boolean);
+
+// Per-user limits (0 disables a limit)
+const RATE_LIMIT_PER_MINUTE = Number(process.env.RATE_LIMIT_PER_MINUTE ?? 60);
+const DAILY_COMIC_QUOTA = Number(process.env.DAILY_COMIC_QUOTA ?? 20);
+
 // Middleware
-app.use(cors());
+app.use(cors({ origin: CORS_ORIGINS.length > 0 ? CORS_ORIGINS : false }));
 app.use(express.json({ limit: '10mb' }));
 app.use(express.static(path.join(__dirname, '../public'))); // Will serve comic UI
 
-// In-memory storage for comic generation requests
-interface ComicRequest {
-  id: string;
-  character1Description: string;
-  character2Description: string;
-  artStyle: string;
-  theme?: string;
-  status:
-    | 'pending'
-    | 'generating_story'
-    | 'generating_images'
-    | 'completed'
-    | 'error';
-  result?: ComicImageOutput;
-  error?: string;
-  createdAt: Date;
+// Images are served without a key so <img> tags can load them; their URLs
+// contain unguessable request or character ids. Only these routes are
+// exempt, relative to /api.
+const PUBLIC_IMAGE_ROUTES = [
+  /^\/comics\/[^/]+\/panels\/[^/]+\.png$/,
+  /^\/comics\/[^/]+\/panels\/[^/]+\/versions\/[^/]+\.png$/,
+  /^\/comics\/[^/]+\/panels\/[^/]+\/candidates\/[^/]+\.png$/,
+  /^\/comics\/[^/]+\/page\.png$/,
+  /^\/comics\/[^/]+\/translations\/[^/]+\/page\.png$/,
+  /^\/characters\/[^/]+\/reference\.png$/,
+];
+
+function exceptImages(
+  middleware: express.RequestHandler
+): express.RequestHandler {
+  return (req, res, next) =>
+    req.method === 'GET' &&
+    PUBLIC_IMAGE_ROUTES.some((route) => route.test(req.path))
+      ? next()
+      : middleware(req, res, next);
 }
 
-const requests: { [key: string]: ComicRequest } = {};
+app.use(
+  '/api',
+  exceptImages(authenticate(API_KEYS)),
+  exceptImages(rateLimitPerUser(RATE_LIMIT_PER_MINUTE))
+);
 
-// Create a parser node to convert LLM response to ComicStoryOutput
-class ComicResponseParserNode extends CustomNode {
-  process(_context: ProcessContext, input: GraphTypes.Content) {
-    console.log('🔄 Parsing LLM response for comic story...');
-    return parseComicStoryResponse(input.content);
-  }
-}
+const COMIC_DATA_DIR =
+  process.env.COMIC_DATA_DIR || path.join(__dirname, '../data');
+const ASSET_DIR = path.join(COMIC_DATA_DIR, 'assets');
 
-// Initialize the comic generation graph
-let comicGeneratorGraph: Graph | null = null;
+// Durable storage for comic generation requests
+const comicRepository: ComicRepository = new JsonFileComicRepository({
+  dataDir: COMIC_DATA_DIR,
+});
 
-async function initializeGraph() {
-  try {
-    console.log('🔧 Initializing Comic Generator Graph...');
+// Local copies of generated images, since provider URLs expire
+const assetStore = new AssetStore(ASSET_DIR);
 
-    const graphBuilder = new GraphBuilder({
-      id: 'comic_generator',
-      apiKey: process.env.INWORLD_API_KEY!,
-    });
+// Comics each user started today, kept apart from the comics themselves
+const dailyQuota = new JsonFileDailyQuota({
+  dataDir: COMIC_DATA_DIR,
+  limit: DAILY_COMIC_QUOTA,
+});
 
-    // Create the nodes
-    const storyGeneratorNode = new ComicStoryGeneratorNode();
+// Character bible: recurring characters reused across comics
+const characterRepository: CharacterRepository =
+  new JsonFileCharacterRepository({ dataDir: COMIC_DATA_DIR });
 
-    const llmChatNode = new RemoteLLMChatNode({
-      provider: 'openai',
-      modelName: 'gpt-5-mini',
-      stream: false,
-    });
+// Completed comics are kept for this many days (0 keeps them forever)
+const COMIC_RETENTION_DAYS = Number(process.env.COMIC_RETENTION_DAYS ?? 30);
+
+// Models and parameters requests may choose from
+const MODELS_CONFIG = loadModelsConfig(process.env.COMIC_MODELS_CONFIG);
+const DEFAULT_GENERATION_OPTIONS = defaultGenerationOptions(MODELS_CONFIG);
 
-    const responseParserNode = new ComicResponseParserNode();
+// Usage metrics since the server started, served on /metrics for Prometheus.
+// Each comic's own usage is stored on its request.
+const metrics = new MetricsRegistry();
+const llmCallsTotal = metrics.register(
+  new Counter('comic_llm_calls_total', 'LLM calls made to write scripts')
+);
+const llmTokensTotal = metrics.register(
+  new Counter('comic_llm_tokens_total', 'Estimated LLM tokens, by type')
+);
+const imageCallsTotal = metrics.register(
+  new Counter(
+    'comic_image_calls_total',
+    'Image generation attempts, including retries'
+  )
+);
+const imageRetriesTotal = metrics.register(
+  new Counter('comic_image_retries_total', 'Image generation retries')
+);
+const imageFailuresTotal = metrics.register(
+  new Counter(
+    'comic_image_failures_total',
+    'Panels whose image failed after all retries'
+  )
+);
+const cacheHitsTotal = metrics.register(
+  new Counter(
+    'comic_cache_hits_total',
+    'Scripts and panel images reused instead of generated'
+  )
+);
+const stageFailuresTotal = metrics.register(
+  new Counter('comic_stage_failures_total', 'Failed comic stages')
+);
+const estimatedCostTotal = metrics.register(
+  new Counter('comic_estimated_cost_usd_total', 'Estimated provider cost')
+);
+const stageDurationSeconds = metrics.register(
+  new Summary('comic_stage_duration_seconds', 'Time spent in comic stages')
+);
+metrics.register(
+  new Gauge('comic_jobs', 'Comic generation jobs, by state', () => [
+    { labels: { state: 'waiting' }, value: comicJobs.waitingCount() },
+    { labels: { state: 'running' }, value: comicJobs.runningCount() },
+  ])
+);
 
-    const imageGeneratorNode = new ComicImageGeneratorNode();
+// Set once the default graphs have been built at startup
+let graphsReady = false;
 
-    // Add nodes to graph
-    graphBuilder
-      .addNode(storyGeneratorNode)
-      .addNode(llmChatNode)
-      .addNode(responseParserNode)
-      .addNode(imageGeneratorNode);
+// Options for comics created before they could be chosen per request
+function generationOptionsOf(request: ComicRequest): ComicGenerationOptions {
+  return request.options ?? DEFAULT_GENERATION_OPTIONS;
+}
+
+// Build the graphs for the default configuration up front, so setup errors
+// show at startup
+async function initializeGraph() {
+  try {
+    console.log('🔧 Initializing Comic Generator Graph...');
 
-    // Create the processing chain: Story Input → LLM → Parser → Image Generation
-    graphBuilder
-      .addEdge(storyGeneratorNode, llmChatNode)
-      .addEdge(llmChatNode, responseParserNode)
-      .addEdge(responseParserNode, imageGeneratorNode)
-      .setStartNode(storyGeneratorNode)
-      .setEndNode(imageGeneratorNode);
+    getScriptGraphs(DEFAULT_GENERATION_OPTIONS.llm);
+    getRenderGraphs(DEFAULT_GENERATION_OPTIONS.image, ASSET_DIR);
+    graphsReady = true;
 
-    comicGeneratorGraph = graphBuilder.build();
     console.log('✅ Comic Generator Graph initialized successfully');
   } catch (error) {
     console.error('❌ Failed to initialize comic graph:', error);
@@ -108,32 +261,51 @@ app.get('/', (_req, res) => {
   res.sendFile(path.join(__dirname, '../public', 'index.html'));
 });
 
+// Server-wide usage metrics in the Prometheus text format. Outside /api so
+// scrapers need no API key; it only exposes totals.
+app.get('/metrics', (_req, res) => {
+  res.type('text/plain; version=0.0.4').send(metrics.render());
+});
+
 // Generate comic endpoint
 app.post('/api/generate-comic', async (req, res) => {
   try {
-    const { character1Description, character2Description, artStyle, theme } =
-      req.body;
+    const userId = getUserId(res);
 
-    // Validation
-    if (
-      !character1Description ||
-      typeof character1Description !== 'string' ||
-      character1Description.trim().length === 0
-    ) {
-      return res
-        .status(400)
-        .json({ error: 'Character 1 description is required' });
+    // A new issue of a series takes its cast, art style and theme from the
+    // latest issue unless the request sets them
+    const series = await findContinuedSeries(req.body, userId);
+    if (typeof series === 'string') {
+      return res.status(400).json({ error: series });
+    }
+    if (series?.issues.some(isComicInProgress)) {
+      return res.status(409).json({
+        error: 'The latest issue of this series is still being generated',
+      });
     }
+    const latestIssue = series?.issues[series.issues.length - 1];
 
-    if (
-      !character2Description ||
-      typeof character2Description !== 'string' ||
-      character2Description.trim().length === 0
-    ) {
-      return res
-        .status(400)
-        .json({ error: 'Character 2 description is required' });
+    const {
+      artStyle = latestIssue?.artStyle,
+      theme = latestIssue?.theme,
+      language: requestedLanguage = latestIssue?.language,
+      panelCount = DEFAULT_PANEL_COUNT,
+      layout = DEFAULT_LAYOUT_TEMPLATE,
+      reviewScript = false,
+      fresh = false,
+    } = req.body;
+
+    // Validation
+    const parsedCast =
+      latestIssue && !hasComicCast(req.body)
+        ? { cast: latestIssue.cast, characters: latestIssue.characters ?? [] }
+        : await parseComicCast(req.body, (id) =>
+            findComicCharacter(id, userId)
+          );
+    if (typeof parsedCast === 'string') {
+      return res.status(400).json({ error: parsedCast });
     }
+    const { cast, characters } = parsedCast;
 
     if (
       !artStyle ||
@@ -143,27 +315,120 @@ app.post('/api/generate-comic', async (req, res) => {
       return res.status(400).json({ error: 'Art style is required' });
     }
 
-    if (!comicGeneratorGraph) {
+    const language =
+      requestedLanguage === undefined
+        ? undefined
+        : normalizeLanguage(requestedLanguage);
+    if (requestedLanguage !== undefined && !language) {
+      return res.status(400).json({ error: INVALID_LANGUAGE_ERROR });
+    }
+
+    if (!isValidPanelCount(panelCount)) {
+      return res.status(400).json({
+        error: `Panel count must be an integer between ${MIN_PANEL_COUNT} and ${MAX_PANEL_COUNT}`,
+      });
+    }
+
+    if (!isComicLayoutTemplate(layout)) {
+      return res.status(400).json({
+        error: `Layout must be one of: ${COMIC_LAYOUT_TEMPLATES.join(', ')}`,
+      });
+    }
+
+    if (typeof reviewScript !== 'boolean') {
+      return res.status(400).json({ error: 'reviewScript must be a boolean' });
+    }
+
+    if (typeof fresh !== 'boolean') {
+      return res.status(400).json({ error: 'fresh must be a boolean' });
+    }
+
+    const options = resolveGenerationOptions(req.body, MODELS_CONFIG);
+    if (typeof options === 'string') {
+      return res.status(400).json({ error: options });
+    }
+
+    const requestedCallback = parseComicCallback(req.body);
+    if (typeof requestedCallback === 'string') {
+      return res.status(400).json({ error: requestedCallback });
+    }
+
+    if (!graphsReady) {
       return res
         .status(500)
         .json({ error: 'Comic generator is not initialized' });
     }
 
-    // Create request
-    const requestId = uuidv4();
-    const request: ComicRequest = {
-      id: requestId,
-      character1Description: character1Description.trim(),
-      character2Description: character2Description.trim(),
-      artStyle: artStyle.trim(),
-      theme: theme?.trim(),
-      status: 'pending',
-      createdAt: new Date(),
-    };
+    // Continuations of a series are created one at a time, so each one sees
+    // the issues saved before it and takes the next issue number
+    const created = await inSeriesOrder(
+      series?.seriesId,
+      async (): Promise<
+        { request: ComicRequest } | { status: number; error: string }
+      > => {
+        const issues = series
+          ? await listSeriesIssues(series.seriesId, userId)
+          : [];
+        if (series && issues.length === 0) {
+          return { status: 400, error: 'Series not found' };
+        }
+        if (issues.some(isComicInProgress)) {
+          return {
+            status: 409,
+            error: 'The latest issue of this series is still being generated',
+          };
+        }
+
+        if (!(await dailyQuota.take(userId))) {
+          return {
+            status: 429,
+            error: `Daily limit of ${DAILY_COMIC_QUOTA} comics reached, please try again tomorrow`,
+          };
+        }
+
+        // The first comic continued becomes issue 1 of the series
+        const [firstIssue] = issues;
+        if (firstIssue && firstIssue.seriesId === undefined) {
+          firstIssue.seriesId = firstIssue.id;
+          firstIssue.issueNumber = 1;
+          await comicRepository.save(firstIssue);
+        }
+        const previousIssue = issues[issues.length - 1];
+
+        const request: ComicRequest = {
+          id: uuidv4(),
+          ownerId: userId,
+          seriesId: series?.seriesId,
+          issueNumber: previousIssue && (previousIssue.issueNumber ?? 1) + 1,
+          cast,
+          artStyle: artStyle.trim(),
+          theme: theme?.trim(),
+          language,
+          panelCount,
+          layout,
+          characters: characters.length > 0 ? characters : undefined,
+          reviewScript,
+          fresh: fresh || undefined,
+          options,
+          callback: requestedCallback?.callback,
+          status: 'pending',
+          createdAt: new Date(),
+        };
 
-    requests[requestId] = request;
+        if (requestedCallback?.secret !== undefined) {
+          rememberCallbackSecret(request.id, requestedCallback.secret);
+        }
+        await comicRepository.save(request);
+        return { request };
+      }
+    );
+    if (!('request' in created)) {
+      return res.status(created.status).json({ error: created.error });
+    }
+    const { request } = created;
+    const requestId = request.id;
 
-    // Start generation asynchronously
+    // Queue generation to run in the background
     generateComic(request);
 
     return res.json({
@@ -177,37 +442,157 @@ app.post('/api/generate-comic', async (req, res) => {
   }
 });
 
+// Creations of new series issues in progress, by series id
+const seriesCreations = new Map<string, Promise<unknown>>();
+
+// Run the task after the earlier ones for the same series; tasks for
+// different series, or for comics outside one, run at once
+function inSeriesOrder<T>(
+  seriesId: string | undefined,
+  task: () => Promise<T>
+): Promise<T> {
+  if (seriesId === undefined) {
+    return task();
+  }
+  const previous = seriesCreations.get(seriesId) ?? Promise.resolve();
+  const run = previous.catch(() => undefined).then(task);
+  seriesCreations.set(seriesId, run);
+  return run.finally(() => {
+    if (seriesCreations.get(seriesId) === run) {
+      seriesCreations.delete(seriesId);
+    }
+  });
+}
+
+// The series a generation request continues, from its previousRequestId or
+// seriesId, with its issues in reading order. Returns an error message when
+// neither names a comic or series of the caller's.
+async function findContinuedSeries(
+  body: { previousRequestId?: unknown; seriesId?: unknown },
+  userId: string
+): Promise<{ seriesId: string; issues: ComicRequest[] } | undefined | string> {
+  const { previousRequestId, seriesId } = body;
+
+  if (previousRequestId === undefined && seriesId === undefined) {
+    return undefined;
+  }
+
+  if (previousRequestId !== undefined && seriesId !== undefined) {
+    return 'Pass either previousRequestId or seriesId, not both';
+  }
+
+  if (previousRequestId !== undefined) {
+    const previous =
+      typeof previousRequestId === 'string'
+        ? await comicRepository.get(previousRequestId)
+        : undefined;
+    if (!previous || ownerOf(previous) !== userId) {
+      return 'Previous comic not found';
+    }
+    const id = previous.seriesId ?? previous.id;
+    return { seriesId: id, issues: await listSeriesIssues(id, userId) };
+  }
+
+  const issues =
+    typeof seriesId === 'string'
+      ? await listSeriesIssues(seriesId, userId)
+      : [];
+  if (issues.length === 0) {
+    return 'Series not found';
+  }
+  return { seriesId: seriesId as string, issues };
+}
+
+// The caller's issues of a series in reading order. A comic that has not been
+// continued yet is a series of one, with its own id.
+async function listSeriesIssues(
+  seriesId: string,
+  userId: string
+): Promise<ComicRequest[]> {
+  const comics = await comicRepository.listRecent(Infinity, userId);
+  return sortIssues(
+    comics.filter(
+      (request) =>
+        request.seriesId === seriesId ||
+        (request.id === seriesId && request.seriesId === undefined)
+    )
+  );
+}
+
+// A comic owned by the caller. Other users' comics are reported as missing.
+async function findOwnedComic(
+  id: string,
+  res: express.Response
+): Promise<ComicRequest | undefined> {
+  const request = await comicRepository.get(id);
+  return request && ownerOf(request) === getUserId(res) ? request : undefined;
+}
+
 // Response interface for comic status endpoint
 interface ComicStatusResponse {
   requestId: string;
   status: ComicRequest['status'];
-  character1Description: string;
-  character2Description: string;
+  cast: ComicCastMember[];
   artStyle: string;
   theme?: string;
+  panelCount: number;
+  layout: ComicLayoutTemplate;
+  characters?: ComicCharacter[];
+  seriesId?: string;
+  issueNumber?: number;
+  language: string;
+  options: ComicGenerationOptions;
   createdAt: Date;
+  queuePosition?: number; // Position among queued jobs, while waiting
+  script?: ComicStoryOutput;
   result?: ComicImageOutput;
   error?: string;
+  rejectionReason?: string;
+  usage?: ComicUsage;
+  callbackUrl?: string;
 }
 
+// Models and image parameters a comic may be generated with
+app.get('/api/models', (_req, res) => {
+  return res.json(MODELS_CONFIG);
+});
+
 // Get comic status endpoint
-app.get('/api/comic-status/:requestId', (req, res) => {
-  const request = requests[req.params.requestId];
+app.get('/api/comic-status/:requestId', async (req, res) => {
+  const request = await findOwnedComic(req.params.requestId, res);
 
   if (!request) {
     return res.status(404).json({ error: 'Request not found' });
   }
 
+  return res.json(toStatusResponse(request));
+});
+
+// Status of a comic as returned by the API and sent to its callback URL
+function toStatusResponse(request: ComicRequest): ComicStatusResponse {
   const response: ComicStatusResponse = {
     requestId: request.id,
     status: request.status,
-    character1Description: request.character1Description,
-    character2Description: request.character2Description,
+    cast: request.cast,
     artStyle: request.artStyle,
     theme: request.theme,
+    panelCount: request.panelCount,
+    layout: request.layout,
+    characters: request.characters,
+    seriesId: request.seriesId,
+    issueNumber: request.issueNumber,
+    language: request.language ?? DEFAULT_COMIC_LANGUAGE,
+    options: generationOptionsOf(request),
     createdAt: request.createdAt,
+    queuePosition: comicJobs.position(request.id),
+    usage: request.usage,
+    callbackUrl: request.callback?.url,
   };
 
+  if (request.status === 'awaiting_approval' && request.script) {
+    response.script = request.script;
+  }
+
   if (request.status === 'completed' && request.result) {
     response.result = request.result;
   }
@@ -216,115 +601,1581 @@ app.get('/api/comic-status/:requestId', (req, res) => {
     response.error = request.error;
   }
 
-  return res.json(response);
+  if (request.status === 'rejected' && request.rejectionReason) {
+    response.rejectionReason = request.rejectionReason;
+  }
+
+  return response;
+}
+
+// Webhook delivery attempts for a comic's callback URL, oldest first
+app.get('/api/comics/:requestId/webhook-deliveries', async (req, res) => {
+  const request = await findOwnedComic(req.params.requestId, res);
+
+  if (!request) {
+    return res.status(404).json({ error: 'Request not found' });
+  }
+
+  return res.json({
+    requestId: request.id,
+    callbackUrl: request.callback?.url,
+    deliveries: request.webhookDeliveries ?? [],
+  });
+});
+
+// Total usage and estimated cost of the caller's comics, optionally only
+// those created since a date
+app.get('/api/usage', async (req, res) => {
+  const { since } = req.query;
+  const sinceDate = typeof since === 'string' ? new Date(since) : undefined;
+
+  if (
+    since !== undefined &&
+    (sinceDate === undefined || Number.isNaN(sinceDate.getTime()))
+  ) {
+    return res.status(400).json({ error: 'since must be an ISO date' });
+  }
+
+  const comics = (
+    await comicRepository.listRecent(Infinity, getUserId(res))
+  ).filter((request) => !sinceDate || request.createdAt >= sinceDate);
+
+  const total = createComicUsage();
+  for (const request of comics) {
+    if (request.usage) {
+      addComicUsage(total, request.usage);
+    }
+  }
+
+  return res.json({
+    since: sinceDate,
+    comicCount: comics.length,
+    usage: total,
+  });
 });
 
 // List recent comic requests endpoint
-app.get('/api/recent-comics', (_req, res) => {
-  const recentRequests = Object.values(requests)
-    .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime())
-    .slice(0, 10)
-    .map((request) => ({
-      requestId: request.id,
-      status: request.status,
-      character1Description:
-        request.character1Description.substring(0, 50) + '...',
-      character2Description:
-        request.character2Description.substring(0, 50) + '...',
-      artStyle: request.artStyle,
-      createdAt: request.createdAt,
-      hasResult: !!request.result,
-    }));
+app.get('/api/recent-comics', async (_req, res) => {
+  const recentComics = await comicRepository.listRecent(10, getUserId(res));
+  const recentRequests = recentComics.map((request) => ({
+    requestId: request.id,
+    status: request.status,
+    characters: request.cast.map((member) => member.name),
+    artStyle: request.artStyle,
+    panelCount: request.panelCount,
+    layout: request.layout,
+    createdAt: request.createdAt,
+    hasResult: !!request.result,
+  }));
 
   return res.json(recentRequests);
 });
 
-// Function to generate comic using the graph
-async function generateComic(request: ComicRequest) {
+// Approve a script that is awaiting review, optionally with edits, and render
+// its images
+app.post('/api/comics/:requestId/render', async (req, res) => {
   try {
-    console.log(`🎭 Starting comic generation for request ${request.id}`);
+    const request = await findOwnedComic(req.params.requestId, res);
 
-    request.status = 'generating_story';
-    console.log('📝 Generating comic story...');
+    if (!request) {
+      return res.status(404).json({ error: 'Request not found' });
+    }
 
-    const input: ComicStoryInput = {
-      character1Description: request.character1Description,
-      character2Description: request.character2Description,
-      artStyle: request.artStyle,
-      theme: request.theme,
-    };
+    if (request.status !== 'awaiting_approval' || !request.script) {
+      return res
+        .status(409)
+        .json({ error: 'This comic is not awaiting script approval' });
+    }
+
+    if (!graphsReady) {
+      return res
+        .status(500)
+        .json({ error: 'Comic generator is not initialized' });
+    }
 
-    const executionId = uuidv4();
-    const executionResult = await comicGeneratorGraph!.start(input, {
-      executionId,
+    let script: ComicStoryOutput;
+    try {
+      script = req.body?.script
+        ? validateEditedScript(req.body.script, request.script)
+        : request.script;
+    } catch (error) {
+      return res.status(400).json({
+        error: error instanceof Error ? error.message : 'Invalid script',
+      });
+    }
+
+    request.script = script;
+    request.result = createPendingResult(script);
+    await updateStatus(request, 'pending');
+
+    // Queue rendering to run in the background
+    renderApprovedScript(request, script);
+
+    return res.json({
+      requestId: request.id,
+      status: 'pending',
+      message: 'Comic rendering started',
     });
+  } catch (error) {
+    console.error('Comic render request error:', error);
+    return res.status(500).json({ error: 'Failed to start comic rendering' });
+  }
+});
 
-    request.status = 'generating_images';
-    console.log('🎨 Generating comic images...');
+// Issues of a series in reading order, with the same fields as the comic
+// status endpoint
+app.get('/api/series/:seriesId', async (req, res) => {
+  const issues = await listSeriesIssues(req.params.seriesId, getUserId(res));
 
-    for await (const result of executionResult.outputStream) {
-      request.result = result.data as ComicImageOutput;
-      request.status = 'completed';
-      console.log(`✅ Comic generation completed for request ${request.id}`);
-      break;
+  if (issues.length === 0) {
+    return res.status(404).json({ error: 'Series not found' });
+  }
+
+  return res.json({
+    seriesId: req.params.seriesId,
+    title: seriesTitle(issues),
+    issueCount: issues.length,
+    issues: issues.map(toStatusResponse),
+  });
+});
+
+// Download the finished issues of a series as one PDF, CBZ or HTML file
+app.get('/api/series/:seriesId/export', async (req, res) => {
+  try {
+    const { format = 'pdf', language } = req.query;
+
+    if (!isComicExportFormat(format)) {
+      return res.status(400).json({
+        error: `Format must be one of: ${COMIC_EXPORT_FORMATS.join(', ')}`,
+      });
+    }
+
+    const exportLanguage =
+      language === undefined ? undefined : normalizeLanguage(language);
+    if (language !== undefined && !exportLanguage) {
+      return res.status(400).json({ error: INVALID_LANGUAGE_ERROR });
+    }
+
+    const issues = await listSeriesIssues(req.params.seriesId, getUserId(res));
+
+    if (issues.length === 0) {
+      return res.status(404).json({ error: 'Series not found' });
     }
 
-    if (request.status !== 'completed') {
-      throw new Error('No valid result received from graph execution');
+    const finished = issues.filter(
+      (issue) => issue.status === 'completed' && issue.result
+    );
+    if (finished.length === 0) {
+      return res
+        .status(409)
+        .json({ error: 'This series has no finished issues to export' });
     }
+
+    const { data, contentType, fileName } = await exportComicSeries(
+      seriesTitle(issues),
+      finished,
+      format,
+      assetStore,
+      exportLanguage
+    );
+
+    res.setHeader('Content-Type', contentType);
+    res.setHeader('Content-Disposition', `attachment; filename="${fileName}"`);
+    return res.send(data);
   } catch (error) {
-    console.error(
-      `❌ Comic generation failed for request ${request.id}:`,
-      error
+    if (error instanceof UnsupportedExportTextError) {
+      return res.status(422).json({ error: error.message });
+    }
+
+    console.error('Series export error:', error);
+    return res.status(500).json({ error: 'Failed to export series' });
+  }
+});
+
+// Delete a comic, cancelling its generation first if it is queued or running
+app.delete('/api/comics/:requestId', async (req, res) => {
+  try {
+    const request = await findOwnedComic(req.params.requestId, res);
+
+    if (!request) {
+      return res.status(404).json({ error: 'Request not found' });
+    }
+
+    const cancelled = await comicJobs.cancel(request.id);
+    await comicRepository.delete(request.id);
+    forgetCallbackSecret(request.id);
+    console.log(
+      `🗑️  Deleted comic request ${request.id}${cancelled ? ' (generation cancelled)' : ''}`
     );
-    request.status = 'error';
-    request.error =
-      error instanceof Error ? error.message : 'Unknown error occurred';
+
+    return res.json({ requestId: request.id, deleted: true, cancelled });
+  } catch (error) {
+    console.error('Comic delete error:', error);
+    return res.status(500).json({ error: 'Failed to delete comic' });
   }
+});
+
+// Serve a stored image, looked up through the comic that references it
+async function sendStoredImage(
+  res: express.Response,
+  assetId: string | undefined
+) {
+  const filePath = assetId ? await assetStore.resolvePath(assetId) : undefined;
+
+  if (!filePath) {
+    return res.status(404).json({ error: 'Image not found' });
+  }
+
+  return res.type('png').sendFile(filePath);
 }
 
-// Cleanup old requests (run every 2 hours)
-setInterval(
-  () => {
-    const twoHoursAgo = new Date(Date.now() - 2 * 60 * 60 * 1000);
-    let deletedCount = 0;
+// Panel image endpoint
+app.get('/api/comics/:requestId/panels/:panelNumber.png', async (req, res) => {
+  const request = await comicRepository.get(req.params.requestId);
+  const panel = request?.result?.panels.find(
+    (p) => p.panelNumber === Number(req.params.panelNumber)
+  );
 
-    for (const [id, request] of Object.entries(requests)) {
-      if (request.createdAt < twoHoursAgo) {
-        delete requests[id];
-        deletedCount++;
-      }
+  if (!panel) {
+    return res.status(404).json({ error: 'Panel not found' });
+  }
+
+  return sendStoredImage(res, panel.assetId);
+});
+
+// Download a finished comic as a PDF, CBZ or standalone HTML file
+app.get('/api/comics/:requestId/export', async (req, res) => {
+  try {
+    const { format = 'pdf', language } = req.query;
+
+    if (!isComicExportFormat(format)) {
+      return res.status(400).json({
+        error: `Format must be one of: ${COMIC_EXPORT_FORMATS.join(', ')}`,
+      });
     }
 
-    if (deletedCount > 0) {
-      console.log(`🗑️  Cleaned up ${deletedCount} old comic requests`);
+    const exportLanguage =
+      language === undefined ? undefined : normalizeLanguage(language);
+    if (language !== undefined && !exportLanguage) {
+      return res.status(400).json({ error: INVALID_LANGUAGE_ERROR });
     }
-  },
-  2 * 60 * 60 * 1000
-); // Every 2 hours
 
-// Start server
-async function startServer() {
-  try {
-    // Check for required environment variables
-    if (!process.env.MINIMAX_API_KEY) {
-      console.error('❌ MINIMAX_API_KEY environment variable is required');
-      process.exit(1);
+    const request = await findOwnedComic(req.params.requestId, res);
+
+    if (!request) {
+      return res.status(404).json({ error: 'Request not found' });
     }
 
-    if (!process.env.INWORLD_API_KEY) {
-      console.error('❌ INWORLD_API_KEY environment variable is required');
-      process.exit(1);
+    if (request.status !== 'completed' || !request.result) {
+      return res
+        .status(409)
+        .json({ error: 'Only finished comics can be exported' });
     }
 
-    await initializeGraph();
+    if (
+      exportLanguage &&
+      exportLanguage !== (request.result.language ?? DEFAULT_COMIC_LANGUAGE) &&
+      !request.result.translations?.some(
+        (translation) => translation.language === exportLanguage
+      )
+    ) {
+      return res.status(404).json({
+        error: `This comic has not been translated into ${languageName(exportLanguage)}`,
+      });
+    }
 
-    app.listen(PORT, () => {
-      console.log(`📚 Comic Generator running on http://localhost:${PORT}`);
-      console.log(
-        `📁 Serving static files from: ${path.join(__dirname, 'public')}`
+    const { data, contentType, fileName } = await exportComic(
+      request,
+      format,
+      assetStore,
+      exportLanguage
+    );
+
+    res.setHeader('Content-Type', contentType);
+    res.setHeader('Content-Disposition', `attachment; filename="${fileName}"`);
+    return res.send(data);
+  } catch (error) {
+    if (error instanceof UnsupportedExportTextError) {
+      return res.status(422).json({ error: error.message });
+    }
+
+    console.error('Comic export error:', error);
+    return res.status(500).json({ error: 'Failed to export comic' });
+  }
+});
+
+// Earlier version of a regenerated panel
+app.get(
+  '/api/comics/:requestId/panels/:panelNumber/versions/:version.png',
+  async (req, res) => {
+    const request = await comicRepository.get(req.params.requestId);
+    const panel = request?.result?.panels.find(
+      (p) => p.panelNumber === Number(req.params.panelNumber)
+    );
+    const version = Number(req.params.version);
+
+    if (!panel) {
+      return res.status(404).json({ error: 'Panel not found' });
+    }
+
+    if ((panel.version ?? 1) === version) {
+      return sendStoredImage(res, panel.assetId);
+    }
+
+    const previous = panel.previousVersions?.find((v) => v.version === version);
+
+    if (!previous) {
+      return res.status(404).json({ error: 'Panel version not found' });
+    }
+
+    return sendStoredImage(res, previous.assetId);
+  }
+);
+
+// One of the candidate images generated for a panel
+app.get(
+  '/api/comics/:requestId/panels/:panelNumber/candidates/:candidate.png',
+  async (req, res) => {
+    const request = await comicRepository.get(req.params.requestId);
+    const panel = request?.result?.panels.find(
+      (p) => p.panelNumber === Number(req.params.panelNumber)
+    );
+    const candidate = panel?.candidates?.[Number(req.params.candidate) - 1];
+
+    if (!candidate) {
+      return res.status(404).json({ error: 'Panel candidate not found' });
+    }
+
+    return sendStoredImage(res, candidate.assetId);
+  }
+);
+
+// Panels currently being regenerated, as "<requestId>:<panelNumber>"
+const regeneratingPanels = new Set<string>();
+
+// Regenerate a single panel of a finished comic, optionally with an edited
+// visual description, shot type, dialogue, captions or sound effects. The
+// replaced panel is kept as a version.
+app.post(
+  '/api/comics/:requestId/panels/:panelNumber/regenerate',
+  async (req, res) => {
+    try {
+      const panelNumber = Number(req.params.panelNumber);
+      const request = await findOwnedComic(req.params.requestId, res);
+
+      if (!request) {
+        return res.status(404).json({ error: 'Request not found' });
+      }
+
+      if (request.status !== 'completed' || !request.result) {
+        return res
+          .status(409)
+          .json({ error: 'Only finished comics can be regenerated' });
+      }
+
+      const current = request.result.panels.find(
+        (p) => p.panelNumber === panelNumber
+      );
+      if (!current) {
+        return res.status(404).json({ error: 'Panel not found' });
+      }
+
+      let edited: ComicPanel;
+      try {
+        edited = validateEditedPanel(req.body, current, request.cast);
+      } catch (error) {
+        return res.status(400).json({
+          error: error instanceof Error ? error.message : 'Invalid panel edits',
+        });
+      }
+
+      if (!graphsReady) {
+        return res
+          .status(500)
+          .json({ error: 'Comic generator is not initialized' });
+      }
+
+      const key = `${request.id}:${panelNumber}`;
+      if (regeneratingPanels.has(key)) {
+        return res
+          .status(409)
+          .json({ error: 'This panel is already being regenerated' });
+      }
+
+      regeneratingPanels.add(key);
+      try {
+        const panel = await regeneratePanel(request, edited);
+        return res.json({
+          requestId: request.id,
+          panel,
+          translations: request.result?.translations,
+        });
+      } finally {
+        regeneratingPanels.delete(key);
+      }
+    } catch (error) {
+      if (error instanceof ContentRejectedError) {
+        return res.status(422).json({ error: error.reason, rejected: true });
+      }
+
+      console.error('Panel regeneration error:', error);
+      return res.status(502).json({
+        error:
+          error instanceof Error ? error.message : 'Failed to regenerate panel',
+      });
+    }
+  }
+);
+
+// Run the image step for one panel, as edited, and swap it into the stored
+// comic
+async function regeneratePanel(
+  request: ComicRequest,
+  edited: ComicPanel
+): Promise<ComicImagePanel> {
+  const comic = request.result!;
+  const { panelNumber } = edited;
+  const current = comic.panels.find((p) => p.panelNumber === panelNumber)!;
+
+  console.log(
+    `🔄 Regenerating panel ${panelNumber} of request ${request.id}...`
+  );
+
+  const story: ComicStoryOutput = {
+    title: comic.title,
+    artStyle: comic.artStyle,
+    layout: comic.layout,
+    cast: comic.cast,
+    characters: comic.characters,
+    panels: [edited],
+  };
+
+  // Other panels may be regenerated at the same time
+  const stopRecording = comicEvents.subscribe(request.id, (event) => {
+    if ('panelNumber' in event && event.panelNumber === panelNumber) {
+      recordUsage(request, event);
+    }
+  });
+
+  let regenerated: ComicImagePanel;
+  try {
+    regenerated = await timeStage(request, 'panel_regeneration', async () => {
+      const output = await runComicGraph<ComicImageOutput>(
+        getRenderGraphs(generationOptionsOf(request).image, ASSET_DIR)
+          .panelImage,
+        story,
+        request.id,
+        // Redrawing a panel is pointless if it returns the same image
+        { fresh: true }
+      );
+      if (!output.panels[0]?.imageUrl) {
+        throw new Error(`Image generation failed for panel ${panelNumber}`);
+      }
+      return output.panels[0];
+    });
+  } catch (error) {
+    // Keep the usage of the failed attempt
+    await saveUnlessDeleted(request);
+    throw error;
+  } finally {
+    stopRecording();
+  }
+
+  const { previousVersions = [], version = 1 } = current;
+  const updated: ComicImagePanel = {
+    ...regenerated,
+    version: version + 1,
+    previousVersions: [
+      ...previousVersions,
+      {
+        version,
+        dialogueText: current.dialogueText,
+        visualDescription: current.visualDescription,
+        imageUrl: current.assetId
+          ? panelVersionImageUrl(request.id, panelNumber, version)
+          : current.imageUrl,
+        assetId: current.assetId,
+        replacedAt: new Date().toISOString(),
+      },
+    ],
+  };
+
+  comic.panels = comic.panels.map((p) =>
+    p.panelNumber === panelNumber ? updated : p
+  );
+
+  // Translations of the old text would re-letter the panel with dialogue it
+  // no longer has
+  if (!hasSamePanelText(updated, current)) {
+    comic.translations = comic.translations?.map((translation) =>
+      withStalePanel(translation, panelNumber)
+    );
+  }
+
+  await recomposeComicPages(comic, request.id);
+
+  if (!(await saveUnlessDeleted(request))) {
+    throw new Error('The comic was deleted while the panel was regenerated');
+  }
+  console.log(`✅ Regenerated panel ${panelNumber} of request ${request.id}`);
+
+  return updated;
+}
+
+// Re-letter and re-composite the page after a panel changed, in every
+// language the comic has been translated into. A failure keeps the old pages.
+async function recomposeComicPages(
+  comic: ComicImageOutput,
+  requestId: string
+): Promise<void> {
+  try {
+    comic.page = await composeComicPage(comic, assetStore, requestId);
+    for (const translation of comic.translations ?? []) {
+      translation.page = await composeComicPage(
+        applyComicTranslation(comic, translation),
+        assetStore,
+        requestId,
+        translation.language
+      );
+    }
+  } catch (error) {
+    console.error('❌ Failed to re-composite comic page:', error);
+  }
+}
+
+// Choose which of a panel's candidate images the comic uses. The page is
+// re-composited with it; nothing is generated.
+app.post(
+  '/api/comics/:requestId/panels/:panelNumber/select',
+  async (req, res) => {
+    try {
+      const { candidate } = req.body ?? {};
+      const panelNumber = Number(req.params.panelNumber);
+
+      if (typeof candidate !== 'number' || !Number.isInteger(candidate)) {
+        return res
+          .status(400)
+          .json({ error: 'candidate must be a candidate number' });
+      }
+
+      const request = await findOwnedComic(req.params.requestId, res);
+
+      if (!request) {
+        return res.status(404).json({ error: 'Request not found' });
+      }
+
+      if (request.status !== 'completed' || !request.result) {
+        return res
+          .status(409)
+          .json({ error: 'Only finished comics can have their panels chosen' });
+      }
+
+      const panel = request.result.panels.find(
+        (p) => p.panelNumber === panelNumber
+      );
+      if (!panel) {
+        return res.status(404).json({ error: 'Panel not found' });
+      }
+
+      const selected = panel.candidates?.[candidate - 1];
+      if (!selected) {
+        return res.status(404).json({
+          error: panel.candidates
+            ? `Panel ${panelNumber} has candidates 1-${panel.candidates.length}`
+            : `Panel ${panelNumber} has only one image`,
+        });
+      }
+
+      // A panel being redrawn would replace the candidates being chosen from
+      if (regeneratingPanels.has(`${request.id}:${panelNumber}`)) {
+        return res
+          .status(409)
+          .json({ error: 'This panel is being regenerated' });
+      }
+
+      if (panel.selectedCandidate !== candidate) {
+        panel.selectedCandidate = candidate;
+        panel.assetId = selected.assetId;
+        panel.imageUrl = selected.assetId
+          ? panelImageUrl(request.id, panelNumber)
+          : selected.imageUrl;
+
+        await recomposeComicPages(request.result, request.id);
+        if (!(await saveUnlessDeleted(request))) {
+          return res.status(404).json({ error: 'Request not found' });
+        }
+        console.log(
+          `👆 Selected candidate ${candidate} for panel ${panelNumber} of request ${request.id}`
+        );
+      }
+
+      return res.json({ requestId: request.id, panel });
+    } catch (error) {
+      console.error('Panel selection error:', error);
+      return res.status(500).json({ error: 'Failed to select panel image' });
+    }
+  }
+);
+
+// Save a comic unless it was deleted since it was loaded, since saving would
+// bring it back. Returns whether it was saved.
+async function saveUnlessDeleted(request: ComicRequest): Promise<boolean> {
+  if (!(await comicRepository.get(request.id))) {
+    return false;
+  }
+  await comicRepository.save(request);
+  return true;
+}
+
+// Composited page image endpoint
+app.get('/api/comics/:requestId/page.png', async (req, res) => {
+  const request = await comicRepository.get(req.params.requestId);
+
+  if (!request?.result?.page) {
+    return res.status(404).json({ error: 'Page not found' });
+  }
+
+  return sendStoredImage(res, request.result.page.assetId);
+});
+
+// Composited page lettered in one of the comic's translations
+app.get(
+  '/api/comics/:requestId/translations/:language/page.png',
+  async (req, res) => {
+    const request = await comicRepository.get(req.params.requestId);
+    const translation = request?.result?.translations?.find(
+      (t) => t.language === req.params.language
+    );
+
+    if (!translation?.page) {
+      return res.status(404).json({ error: 'Page not found' });
+    }
+
+    return sendStoredImage(res, translation.page.assetId);
+  }
+);
+
+// Comics currently being translated, as "<requestId>:<language>"
+const translatingComics = new Set<string>();
+
+// Translate the title and dialogue of a finished comic into another language.
+// The panel images are reused; only the page is lettered again. Translating
+// into the same language again replaces the earlier translation.
+app.post('/api/comics/:requestId/translate', async (req, res) => {
+  try {
+    const language = normalizeLanguage(req.body?.language);
+
+    if (!language) {
+      return res.status(400).json({ error: INVALID_LANGUAGE_ERROR });
+    }
+
+    const request = await findOwnedComic(req.params.requestId, res);
+
+    if (!request) {
+      return res.status(404).json({ error: 'Request not found' });
+    }
+
+    if (request.status !== 'completed' || !request.result) {
+      return res
+        .status(409)
+        .json({ error: 'Only finished comics can be translated' });
+    }
+
+    if (language === (request.result.language ?? DEFAULT_COMIC_LANGUAGE)) {
+      return res.status(400).json({
+        error: `This comic is already in ${languageName(language)}`,
+      });
+    }
+
+    if (!graphsReady) {
+      return res
+        .status(500)
+        .json({ error: 'Comic generator is not initialized' });
+    }
+
+    const key = `${request.id}:${language}`;
+    if (translatingComics.has(key)) {
+      return res.status(409).json({
+        error: `This comic is already being translated into ${languageName(language)}`,
+      });
+    }
+
+    translatingComics.add(key);
+    try {
+      const translation = await translateComic(request, language);
+      return res.json({ requestId: request.id, translation });
+    } finally {
+      translatingComics.delete(key);
+    }
+  } catch (error) {
+    if (error instanceof ContentRejectedError) {
+      return res.status(422).json({ error: error.reason, rejected: true });
+    }
+
+    console.error('Comic translation error:', error);
+    return res.status(502).json({
+      error:
+        error instanceof Error ? error.message : 'Failed to translate comic',
+    });
+  }
+});
+
+// Run the translation graph for a comic, letter its page in the translation
+// and store it with the comic
+async function translateComic(
+  request: ComicRequest,
+  language: string
+): Promise<ComicTranslation> {
+  const comic = request.result!;
+
+  console.log(
+    `🌐 Translating request ${request.id} into ${languageName(language)}...`
+  );
+
+  // Panels may be regenerated at the same time; only the LLM call belongs
+  // to the translation
+  const stopRecording = comicEvents.subscribe(request.id, (event) => {
+    if (event.type === 'llm_completed') {
+      recordUsage(request, event);
+    }
+  });
+
+  let translation: ComicTranslation;
+  try {
+    translation = await timeStage(request, 'translation', () =>
+      translateComicText(
+        generationOptionsOf(request).llm,
+        comicTranslationInput(comic, language),
+        request.id
+      )
+    );
+  } catch (error) {
+    // Keep the usage of the failed attempt
+    await saveUnlessDeleted(request);
+    throw error;
+  } finally {
+    stopRecording();
+  }
+
+  // Panel images carry no lettering, so only the page is composited again
+  try {
+    translation.page = await composeComicPage(
+      applyComicTranslation(comic, translation),
+      assetStore,
+      request.id,
+      language
+    );
+  } catch (error) {
+    console.error('❌ Failed to composite translated comic page:', error);
+  }
+
+  comic.translations = [
+    ...(comic.translations ?? []).filter((t) => t.language !== language),
+    translation,
+  ];
+
+  if (!(await saveUnlessDeleted(request))) {
+    throw new Error('The comic was deleted while it was translated');
+  }
+  console.log(
+    `✅ Translated request ${request.id} into ${languageName(language)}`
+  );
+
+  return translation;
+}
+
+// Stream live progress events for a comic request (Server-Sent Events)
+app.get('/api/comic-events/:requestId', async (req, res) => {
+  const request = await findOwnedComic(req.params.requestId, res);
+
+  if (!request) {
+    return res.status(404).json({ error: 'Request not found' });
+  }
+
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    Connection: 'keep-alive',
+  });
+
+  const send = (event: ComicProgressEvent) => {
+    res.write(`event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`);
+  };
+
+  // Replay the current state first, so late subscribers catch up
+  send({ type: 'status', status: request.status });
+
+  if (request.status === 'completed' && request.result) {
+    send({ type: 'completed', result: request.result });
+    return res.end();
+  }
+
+  if (request.status === 'error') {
+    send({ type: 'error', error: request.error || 'Unknown error occurred' });
+    return res.end();
+  }
+
+  if (request.status === 'awaiting_approval' && request.script) {
+    send({ type: 'awaiting_approval', script: request.script });
+    return res.end();
+  }
+
+  if (request.status === 'rejected') {
+    send({ type: 'rejected', reason: request.rejectionReason ?? '' });
+    return res.end();
+  }
+
+  const queuePosition = comicJobs.position(request.id);
+  if (queuePosition !== undefined) {
+    send({ type: 'queued', position: queuePosition });
+  }
+
+  if (request.result) {
+    send({ type: 'story_parsed', story: request.result });
+    for (const panel of request.result.panels.filter((p) => p.imageUrl)) {
+      send({
+        type: 'panel_completed',
+        panelNumber: panel.panelNumber,
+        imageUrl: panel.imageUrl,
+        assetId: panel.assetId,
+        candidates: panel.candidates,
+        selectedCandidate: panel.selectedCandidate,
+      });
+    }
+  }
+
+  const heartbeat = setInterval(() => res.write(': keep-alive\n\n'), 15000);
+
+  const close = () => {
+    clearInterval(heartbeat);
+    unsubscribe();
+    res.end();
+  };
+
+  const unsubscribe = comicEvents.subscribe(request.id, (event) => {
+    send(event);
+    if (
+      event.type === 'completed' ||
+      event.type === 'error' ||
+      event.type === 'awaiting_approval' ||
+      event.type === 'rejected'
+    ) {
+      close();
+    }
+  });
+
+  req.on('close', close);
+  return undefined;
+});
+
+// Character bible endpoints
+
+// Response shape for a saved character
+function toCharacterResponse(character: SavedCharacter) {
+  return {
+    ...character,
+    referenceImageUrl: character.referenceImageAssetId
+      ? characterReferenceImageUrl(character.id)
+      : undefined,
+  };
+}
+
+// Look up a saved character by id for use in a comic
+async function findComicCharacter(
+  id: unknown,
+  userId: string
+): Promise<ComicCharacter | undefined> {
+  if (typeof id !== 'string') {
+    return undefined;
+  }
+  const character = await characterRepository.get(id);
+  return character && ownerOf(character) === userId
+    ? toComicCharacter(character)
+    : undefined;
+}
+
+// A saved character from the caller's own character bible
+async function findOwnedCharacter(
+  id: string,
+  res: express.Response
+): Promise<SavedCharacter | undefined> {
+  const character = await characterRepository.get(id);
+  return character && ownerOf(character) === getUserId(res)
+    ? character
+    : undefined;
+}
+
+// Validate the editable fields of a character. When partial is set, missing
+// fields are left unchanged; a null referenceImage or seed removes it.
+async function parseCharacterFields(
+  body: Record<string, unknown>,
+  partial: boolean
+): Promise<Partial<SavedCharacter> | string> {
+  const fields: Partial<SavedCharacter> = {};
+  const { name, appearance, personality, seed, referenceImage } = body;
+
+  if (name !== undefined || !partial) {
+    if (typeof name !== 'string' || name.trim().length === 0) {
+      return 'Character name is required';
+    }
+    if (name.trim().length > 100) {
+      return 'Character name must be at most 100 characters';
+    }
+    fields.name = name.trim();
+  }
+
+  if (appearance !== undefined || !partial) {
+    if (typeof appearance !== 'string' || appearance.trim().length === 0) {
+      return 'Character appearance is required';
+    }
+    if (appearance.trim().length > 1000) {
+      return 'Character appearance must be at most 1000 characters';
+    }
+    fields.appearance = appearance.trim();
+  }
+
+  if (personality !== undefined) {
+    if (typeof personality !== 'string') {
+      return 'Character personality must be a string';
+    }
+    fields.personality = personality.trim() || undefined;
+  }
+
+  if (seed === null) {
+    fields.seed = undefined;
+  } else if (seed !== undefined) {
+    if (
+      typeof seed !== 'number' ||
+      !Number.isInteger(seed) ||
+      seed < 0 ||
+      seed > 2147483647
+    ) {
+      return 'Seed must be an integer between 0 and 2147483647';
+    }
+    fields.seed = seed;
+  }
+
+  if (referenceImage === null) {
+    fields.referenceImageAssetId = undefined;
+  } else if (referenceImage !== undefined) {
+    if (
+      typeof referenceImage !== 'string' ||
+      !/^(https:|data:image\/)/.test(referenceImage)
+    ) {
+      return 'Reference image must be an https: or data:image/ URL';
+    }
+    try {
+      const { data } = await fetchImage(referenceImage, { untrusted: true });
+      fields.referenceImageAssetId = await assetStore.putImage(data);
+    } catch (error) {
+      if (error instanceof UnsafeUrlError) {
+        return `Reference image was refused: ${error.message}`;
+      }
+      console.error('❌ Failed to store character reference image:', error);
+      return 'Reference image could not be loaded';
+    }
+  }
+
+  return fields;
+}
+
+// List saved characters
+app.get('/api/characters', async (_req, res) => {
+  const userId = getUserId(res);
+  const characters = (await characterRepository.list()).filter(
+    (character) => ownerOf(character) === userId
+  );
+  return res.json(characters.map(toCharacterResponse));
+});
+
+// Create a saved character
+app.post('/api/characters', async (req, res) => {
+  try {
+    const fields = await parseCharacterFields(req.body ?? {}, false);
+    if (typeof fields === 'string') {
+      return res.status(400).json({ error: fields });
+    }
+
+    const now = new Date();
+    const character: SavedCharacter = {
+      id: uuidv4(),
+      ownerId: getUserId(res),
+      name: fields.name!,
+      appearance: fields.appearance!,
+      personality: fields.personality,
+      referenceImageAssetId: fields.referenceImageAssetId,
+      seed: fields.seed,
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    await characterRepository.save(character);
+    console.log(`🧑‍🎨 Saved character "${character.name}" (${character.id})`);
+
+    return res.status(201).json(toCharacterResponse(character));
+  } catch (error) {
+    console.error('Character creation error:', error);
+    return res.status(500).json({ error: 'Failed to save character' });
+  }
+});
+
+app.get('/api/characters/:characterId', async (req, res) => {
+  const character = await findOwnedCharacter(req.params.characterId, res);
+
+  if (!character) {
+    return res.status(404).json({ error: 'Character not found' });
+  }
+
+  return res.json(toCharacterResponse(character));
+});
+
+// Update some fields of a saved character. Comics already generated keep
+// the character as it was.
+app.patch('/api/characters/:characterId', async (req, res) => {
+  try {
+    const character = await findOwnedCharacter(req.params.characterId, res);
+
+    if (!character) {
+      return res.status(404).json({ error: 'Character not found' });
+    }
+
+    const fields = await parseCharacterFields(req.body ?? {}, true);
+    if (typeof fields === 'string') {
+      return res.status(400).json({ error: fields });
+    }
+
+    const updated: SavedCharacter = {
+      ...character,
+      ...fields,
+      updatedAt: new Date(),
+    };
+    await characterRepository.save(updated);
+
+    return res.json(toCharacterResponse(updated));
+  } catch (error) {
+    console.error('Character update error:', error);
+    return res.status(500).json({ error: 'Failed to update character' });
+  }
+});
+
+app.delete('/api/characters/:characterId', async (req, res) => {
+  try {
+    const character = await findOwnedCharacter(req.params.characterId, res);
+
+    if (!character) {
+      return res.status(404).json({ error: 'Character not found' });
+    }
+
+    await characterRepository.delete(character.id);
+
+    return res.status(204).end();
+  } catch (error) {
+    console.error('Character deletion error:', error);
+    return res.status(500).json({ error: 'Failed to delete character' });
+  }
+});
+
+app.get('/api/characters/:characterId/reference.png', async (req, res) => {
+  const character = await characterRepository.get(req.params.characterId);
+
+  if (!character) {
+    return res.status(404).json({ error: 'Character not found' });
+  }
+
+  return sendStoredImage(res, character.referenceImageAssetId);
+});
+
+// Update the request status, store it and notify subscribers
+async function updateStatus(
+  request: ComicRequest,
+  status: ComicRequest['status']
+) {
+  request.status = status;
+  await comicRepository.save(request);
+  comicEvents.publish(request.id, { type: 'status', status });
+}
+
+// Result shown while panel images are still being generated
+function createPendingResult(story: ComicStoryOutput): ComicImageOutput {
+  return {
+    title: story.title || 'Untitled Comic',
+    panels: story.panels.map((panel) => ({ ...panel, imageUrl: '' })),
+    artStyle: story.artStyle,
+    layout: story.layout,
+  };
+}
+
+// Keep the stored request in sync with progress events from the graph, so
+// finished panels can be served before the whole comic is done
+function trackProgress(request: ComicRequest, event: ComicProgressEvent) {
+  switch (event.type) {
+    case 'story_parsed':
+      request.result = createPendingResult(event.story);
+      break;
+    case 'images_started':
+      // Status is reported once images actually start generating
+      updateStatus(request, 'generating_images').catch((error) =>
+        console.error(`❌ Failed to store request ${request.id}:`, error)
+      );
+      return;
+    case 'panel_completed': {
+      const panel = request.result?.panels.find(
+        (p) => p.panelNumber === event.panelNumber
+      );
+      if (panel) {
+        panel.imageUrl = event.imageUrl;
+        panel.assetId = event.assetId;
+        panel.candidates = event.candidates;
+        panel.selectedCandidate = event.selectedCandidate;
+      }
+      break;
+    }
+    default:
+      return;
+  }
+
+  comicRepository
+    .save(request)
+    .catch((error) =>
+      console.error(`❌ Failed to store request ${request.id}:`, error)
+    );
+}
+
+// Add provider calls reported by progress events to the request's usage and
+// the server metrics
+function recordUsage(request: ComicRequest, event: ComicProgressEvent) {
+  const { llm, image } = generationOptionsOf(request);
+  const usage = (request.usage ??= createComicUsage());
+
+  switch (event.type) {
+    case 'llm_completed': {
+      const labels = { provider: llm.provider, model: llm.model };
+      const cost = llmCostUsd(
+        MODELS_CONFIG,
+        llm,
+        event.promptTokens,
+        event.completionTokens
+      );
+      usage.llmCalls++;
+      usage.llmPromptTokens += event.promptTokens;
+      usage.llmCompletionTokens += event.completionTokens;
+      usage.estimatedCostUsd += cost;
+      llmCallsTotal.inc(labels);
+      llmTokensTotal.inc({ ...labels, type: 'prompt' }, event.promptTokens);
+      llmTokensTotal.inc(
+        { ...labels, type: 'completion' },
+        event.completionTokens
+      );
+      estimatedCostTotal.inc({ kind: 'llm' }, cost);
+      break;
+    }
+    case 'panel_started':
+      usage.imageCalls++;
+      imageCallsTotal.inc({ model: image.model });
+      break;
+    case 'panel_retrying':
+      usage.imageRetries++;
+      imageRetriesTotal.inc({ model: image.model });
+      break;
+    case 'cache_hit':
+      if (event.kind === 'script') {
+        usage.scriptCacheHits = (usage.scriptCacheHits ?? 0) + 1;
+      } else {
+        usage.imageCacheHits = (usage.imageCacheHits ?? 0) + 1;
+      }
+      cacheHitsTotal.inc({ kind: event.kind });
+      break;
+    case 'panel_completed': {
+      // Only images that were delivered are charged for, once
+      if (event.cached) {
+        break;
+      }
+      const cost =
+        imageCostUsd(MODELS_CONFIG, image) * (event.candidates?.length ?? 1);
+      usage.estimatedCostUsd += cost;
+      estimatedCostTotal.inc({ kind: 'image' }, cost);
+      break;
+    }
+    case 'panel_failed':
+      usage.imageFailures++;
+      imageFailuresTotal.inc({ model: image.model });
+      break;
+  }
+}
+
+// Run one stage of a comic, recording how long it took and why it failed
+async function timeStage<T>(
+  request: ComicRequest,
+  stage: ComicStage,
+  run: () => Promise<T>
+): Promise<T> {
+  const usage = (request.usage ??= createComicUsage());
+  const startedAt = Date.now();
+
+  try {
+    return await run();
+  } catch (error) {
+    usage.failures.push({
+      stage,
+      reason:
+        error instanceof ContentRejectedError
+          ? error.reason
+          : describeError(error),
+      at: new Date().toISOString(),
+    });
+    stageFailuresTotal.inc({ stage });
+    throw error;
+  } finally {
+    const elapsedMs = Date.now() - startedAt;
+    const timing = (usage.stages[stage] ??= { runs: 0, totalMs: 0 });
+    timing.runs++;
+    timing.totalMs += elapsedMs;
+    stageDurationSeconds.observe({ stage }, elapsedMs / 1000);
+  }
+}
+
+// Queue one stage of comic generation, tracking its progress and recording
+// any failure (including cancellation or a timeout) on the request
+function runGenerationStage(
+  request: ComicRequest,
+  stage: (signal: AbortSignal) => Promise<void>
+) {
+  comicJobs.enqueue(request.id, async (signal) => {
+    const stopTracking = comicEvents.subscribe(request.id, (event) => {
+      recordUsage(request, event);
+      trackProgress(request, event);
+    });
+
+    try {
+      await stage(signal);
+    } catch (error) {
+      if (error instanceof ContentRejectedError) {
+        await rejectRequest(request, error.reason);
+        return;
+      }
+
+      console.error(
+        `❌ Comic generation failed for request ${request.id}:`,
+        error
+      );
+      request.status = 'error';
+      request.error =
+        error instanceof Error ? error.message : 'Unknown error occurred';
+
+      try {
+        await comicRepository.save(request);
+      } catch (saveError) {
+        console.error(
+          `❌ Failed to store error for request ${request.id}:`,
+          saveError
+        );
+      }
+
+      comicEvents.publish(request.id, { type: 'status', status: 'error' });
+      comicEvents.publish(request.id, { type: 'error', error: request.error });
+    } finally {
+      stopTracking();
+      notifyCallback(request);
+    }
+  });
+}
+
+// Statuses sent to a comic's callback URL: the final ones, and a script
+// waiting for the caller's approval
+const CALLBACK_STATUSES: ComicRequest['status'][] = [
+  'completed',
+  'error',
+  'rejected',
+  'awaiting_approval',
+];
+
+// POST the comic's status to its callback URL in the background, logging
+// every attempt on the comic
+function notifyCallback(request: ComicRequest) {
+  const { callback } = request;
+  if (!callback || !CALLBACK_STATUSES.includes(request.status)) {
+    return;
+  }
+
+  // No callback follows a final status, so the secret is not needed after it
+  const final = request.status !== 'awaiting_approval';
+
+  deliverWebhook(
+    request.id,
+    callback,
+    request.status,
+    toStatusResponse(request),
+    async (attempt) => {
+      if (!attempt.delivered) {
+        console.warn(
+          `⚠️  Webhook attempt ${attempt.attempt} for request ${request.id} failed: ${attempt.error}`
+        );
+      }
+
+      // Log on the stored comic, which may have moved on since, unless it
+      // was deleted
+      const current = await comicRepository.get(request.id);
+      if (current) {
+        (current.webhookDeliveries ??= []).push(attempt);
+        await comicRepository.save(current);
+      }
+    }
+  )
+    .catch((error) =>
+      console.error(
+        `❌ Webhook delivery failed for request ${request.id}:`,
+        error
+      )
+    )
+    .finally(() => {
+      if (final) {
+        forgetCallbackSecret(request.id);
+      }
+    });
+}
+
+// Record that moderation rejected the request, with the reason
+async function rejectRequest(request: ComicRequest, reason: string) {
+  console.warn(`🚫 Comic request ${request.id} was rejected: ${reason}`);
+  request.rejectionReason = reason;
+
+  try {
+    await updateStatus(request, 'rejected');
+  } catch (saveError) {
+    console.error(
+      `❌ Failed to store rejection for request ${request.id}:`,
+      saveError
+    );
+  }
+
+  comicEvents.publish(request.id, { type: 'rejected', reason });
+}
+
+// Function to generate comic using the graphs
+function generateComic(request: ComicRequest) {
+  runGenerationStage(request, async (signal) => {
+    console.log(`🎭 Starting comic generation for request ${request.id}`);
+
+    await updateStatus(request, 'generating_story');
+    console.log('📝 Generating comic story...');
+
+    const input: ComicStoryInput = {
+      cast: request.cast,
+      artStyle: request.artStyle,
+      theme: request.theme,
+      panelCount: request.panelCount,
+      layout: request.layout,
+      characters: request.characters,
+      language: request.language,
+      series:
+        request.seriesId && request.issueNumber && request.issueNumber > 1
+          ? buildSeriesContext(
+              await listSeriesIssues(request.seriesId, ownerOf(request)),
+              request.issueNumber
+            )
+          : undefined,
+    };
+
+    const script = await timeStage(request, 'script', () =>
+      writeComicScript(generationOptionsOf(request).llm, input, request.id, {
+        signal,
+        fresh: request.fresh,
+      })
+    );
+
+    if (request.reviewScript) {
+      request.script = script;
+      await updateStatus(request, 'awaiting_approval');
+      console.log(`📋 Script for request ${request.id} is awaiting approval`);
+      comicEvents.publish(request.id, { type: 'awaiting_approval', script });
+      return;
+    }
+
+    await renderComic(request, script, signal);
+  });
+}
+
+// Render a script approved after review
+function renderApprovedScript(request: ComicRequest, script: ComicStoryOutput) {
+  runGenerationStage(request, async (signal) => {
+    console.log(`🎭 Rendering approved script for request ${request.id}`);
+    await renderComic(request, script, signal);
+  });
+}
+
+// Image stage: draw the panels and composite the page
+async function renderComic(
+  request: ComicRequest,
+  script: ComicStoryOutput,
+  signal: AbortSignal
+) {
+  const result = await timeStage(request, 'render', () =>
+    runComicGraph<ComicImageOutput>(
+      getRenderGraphs(generationOptionsOf(request).image, ASSET_DIR).render,
+      script,
+      request.id,
+      { signal, fresh: request.fresh }
+    )
+  );
+
+  request.result = result;
+  await updateStatus(request, 'completed');
+  console.log(`✅ Comic generation completed for request ${request.id}`);
+  comicEvents.publish(request.id, { type: 'completed', result });
+}
+
+// Requests that were still running when the server stopped can never finish
+// Comics stored by earlier versions kept their callback secret in the
+// record. Hold it in memory like new ones and take it out of the file.
+async function removeStoredCallbackSecrets() {
+  for (const request of await comicRepository.listRecent(Infinity)) {
+    const stored = request.callback as
+      | (ComicCallback & { secret?: string })
+      | undefined;
+    if (stored?.secret === undefined) {
+      continue;
+    }
+    rememberCallbackSecret(request.id, stored.secret);
+    request.callback = { url: stored.url, hasSecret: true };
+    await comicRepository.save(request);
+  }
+}
+
+async function failInterruptedRequests() {
+  const storedRequests = await comicRepository.listRecent(Infinity);
+  // Scripts awaiting approval are waiting on a person, not on this process
+  const interrupted = storedRequests.filter(
+    (request) =>
+      request.status !== 'completed' &&
+      request.status !== 'error' &&
+      request.status !== 'rejected' &&
+      request.status !== 'awaiting_approval'
+  );
+
+  for (const request of interrupted) {
+    request.status = 'error';
+    request.error = 'Comic generation was interrupted by a server restart';
+    await comicRepository.save(request);
+    notifyCallback(request);
+  }
+
+  if (interrupted.length > 0) {
+    console.log(
+      `⚠️  Marked ${interrupted.length} interrupted comic request(s) as failed`
+    );
+  }
+}
+
+// Delete comics older than the configured retention period
+async function cleanupExpiredComics() {
+  if (COMIC_RETENTION_DAYS <= 0) {
+    return;
+  }
+
+  try {
+    const cutoff = new Date(
+      Date.now() - COMIC_RETENTION_DAYS * 24 * 60 * 60 * 1000
+    );
+    const deletedCount = await comicRepository.deleteOlderThan(cutoff);
+
+    if (deletedCount > 0) {
+      console.log(`🗑️  Cleaned up ${deletedCount} old comic requests`);
+    }
+
+    // Remove images no remaining comic refers to
+    const referencedAssets = new Set<string>();
+    for (const request of await comicRepository.listRecent(Infinity)) {
+      for (const panel of request.result?.panels ?? []) {
+        for (const version of [
+          panel,
+          ...(panel.previousVersions ?? []),
+          ...(panel.candidates ?? []),
+        ]) {
+          if (version.assetId) {
+            referencedAssets.add(version.assetId);
+          }
+        }
+      }
+      for (const page of [
+        request.result?.page,
+        ...(request.result?.translations ?? []).map((t) => t.page),
+      ]) {
+        if (page?.assetId) {
+          referencedAssets.add(page.assetId);
+        }
+      }
+      for (const character of request.characters ?? []) {
+        if (character.referenceImageAssetId) {
+          referencedAssets.add(character.referenceImageAssetId);
+        }
+      }
+    }
+    for (const character of await characterRepository.list()) {
+      if (character.referenceImageAssetId) {
+        referencedAssets.add(character.referenceImageAssetId);
+      }
+    }
+
+    const deletedAssets = await assetStore.deleteUnreferenced(
+      referencedAssets,
+      24 * 60 * 60 * 1000
+    );
+
+    if (deletedAssets > 0) {
+      console.log(`🗑️  Cleaned up ${deletedAssets} unused comic images`);
+    }
+  } catch (error) {
+    console.error('❌ Failed to clean up old comic requests:', error);
+  }
+}
+
+// Cleanup old requests (run every hour)
+setInterval(cleanupExpiredComics, 60 * 60 * 1000);
+
+// Start server
+async function startServer() {
+  try {
+    // Check for required environment variables
+    if (!process.env.INWORLD_API_KEY) {
+      console.error('❌ INWORLD_API_KEY environment variable is required');
+      process.exit(1);
+    }
+
+    // Validate the image provider config (e.g. MINIMAX_API_KEY) up front
+    const imageProvider = createImageProvider(getConfiguredImageProviderName());
+    console.log(`🖼️  Using image provider: ${imageProvider.name}`);
+
+    // Validate the content moderators (e.g. OPENAI_API_KEY) up front too
+    const moderators = getConfiguredModerators();
+    console.log(
+      `🛡️  Content moderation: ${moderators.map((m) => m.name).join(', ') || 'disabled'}`
+    );
+
+    if (API_KEYS.size === 0) {
+      console.warn(
+        '⚠️  COMIC_API_KEYS is not set: the API is open to anyone who can reach it'
+      );
+    } else {
+      console.log(`🔑 API key authentication enabled (${API_KEYS.size} keys)`);
+    }
+
+    await comicRepository.init();
+    await characterRepository.init();
+    await dailyQuota.init();
+    await removeStoredCallbackSecrets();
+    await failInterruptedRequests();
+    await cleanupExpiredComics();
+
+    await initializeGraph();
+
+    app.listen(PORT, () => {
+      console.log(`📚 Comic Generator running on http://localhost:${PORT}`);
+      console.log(
+        `📁 Serving static files from: ${path.join(__dirname, 'public')}`
+      );
+      console.log(
+        `🎭 Ready to create ${MIN_PANEL_COUNT}-${MAX_PANEL_COUNT} panel comics!`
       );
-      console.log(`🎭 Ready to create 4-panel comics!`);
     });
   } catch (error) {
     console.error('❌ Failed to start comic server:', error);
@@ -0,0 +1,94 @@
+import axios from 'axios';
+import {
+  GeneratedImage,
+  ImageGenerationRequest,
+  ImageProvider,
+} from './image_provider';
+
+export interface MiniMaxImageProviderOptions {
+  apiKey?: string;
+  url?: string;
+  model?: string;
+  timeoutMs?: number;
+}
+
+// Image provider backed by the MiniMax image generation API
+export class MiniMaxImageProvider implements ImageProvider {
+  readonly name = 'minimax';
+  readonly supportsSeed = true;
+  readonly supportsReferenceImage = true;
+
+  private readonly apiKey: string;
+  private readonly url: string;
+  private readonly model: string;
+  private readonly timeoutMs: number;
+
+  constructor(options: MiniMaxImageProviderOptions = {}) {
+    const apiKey = options.apiKey ?? process.env.MINIMAX_API_KEY;
+    if (!apiKey) {
+      throw new Error('MINIMAX_API_KEY environment variable is required');
+    }
+
+    this.apiKey = apiKey;
+    this.url =
+      options.url ??
+      process.env.MINIMAX_API_URL ??
+      'https://api.minimax.io/v1/image_generation';
+    this.model = options.model ?? 'image-01';
+    this.timeoutMs =
+      options.timeoutMs ?? Number(process.env.MINIMAX_TIMEOUT_MS ?? 120000); // 2 minutes
+  }
+
+  async generateImages(
+    request: ImageGenerationRequest
+  ): Promise<GeneratedImage[]> {
+    const headers = {
+      Authorization: `Bearer ${this.apiKey}`,
+      'Content-Type': 'application/json',
+    };
+
+    const payload = {
+      model: request.model ?? this.model,
+      prompt: request.prompt,
+      width: request.width,
+      height: request.height,
+      response_format: 'url',
+      n: request.count ?? 1, // Candidates to choose from
+      prompt_optimizer: request.promptOptimizer ?? true,
+      ...(request.seed !== undefined && { seed: request.seed }),
+      ...(request.referenceImageUrl && {
+        subject_reference: [
+          { type: 'character', image_file: request.referenceImageUrl },
+        ],
+      }),
+    };
+
+    const response = await axios.post(this.url, payload, {
+      headers,
+      timeout: this.timeoutMs,
+      signal: request.signal,
+    });
+
+    if (!response.data || !response.data.base_resp) {
+      throw new Error(`Invalid response from MiniMax API`);
+    }
+
+    if (!response.data.data || !response.data.data.image_urls) {
+      throw new Error(
+        `No images received from MiniMax API. Status Code: ${response.data.base_resp.status_code}, Status Message: ${response.data.base_resp.status_msg}`
+      );
+    }
+
+    const imageUrls = (response.data.data.image_urls as unknown[]).filter(
+      (imageUrl): imageUrl is string =>
+        typeof imageUrl === 'string' && imageUrl.length > 0
+    );
+    if (imageUrls.length === 0) {
+      throw new Error(
+        `No image URL received from MiniMax API. Status Code: ${response.data.base_resp.status_code}, Status Message: ${response.data.base_resp.status_msg}`
+      );
+    }
+
+    return imageUrls.map((imageUrl) => ({ imageUrl }));
+  }
+}
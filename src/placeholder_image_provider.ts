@@ -0,0 +1,106 @@
+import crypto from 'crypto';
+import sharp from 'sharp';
+import {
+  GeneratedImage,
+  ImageGenerationRequest,
+  ImageProvider,
+} from './image_provider';
+import { escapeXml, wrapText } from './svg_text';
+
+export type PlaceholderImageFormat = 'svg' | 'png';
+
+export interface PlaceholderImageProviderOptions {
+  format?: PlaceholderImageFormat;
+}
+
+// Offline image provider that renders a deterministic placeholder from the
+// prompt text. Useful for CI and local development without a MiniMax key.
+export class PlaceholderImageProvider implements ImageProvider {
+  readonly name = 'placeholder';
+  readonly supportsSeed = true;
+  readonly supportsReferenceImage = false;
+
+  private readonly format: PlaceholderImageFormat;
+
+  constructor(options: PlaceholderImageProviderOptions = {}) {
+    const format =
+      options.format ??
+      (process.env.PLACEHOLDER_IMAGE_FORMAT || 'svg').trim().toLowerCase();
+
+    if (format !== 'svg' && format !== 'png') {
+      throw new Error(
+        `Unknown PLACEHOLDER_IMAGE_FORMAT "${format}". Expected svg or png`
+      );
+    }
+
+    this.format = format;
+  }
+
+  async generateImages(
+    request: ImageGenerationRequest
+  ): Promise<GeneratedImage[]> {
+    return Promise.all(
+      Array.from({ length: request.count ?? 1 }, (_, index) =>
+        this.renderImage(renderPlaceholderSvg(request, index))
+      )
+    );
+  }
+
+  private async renderImage(svg: string): Promise<GeneratedImage> {
+    if (this.format === 'png') {
+      const png = await sharp(Buffer.from(svg)).png().toBuffer();
+      return { imageUrl: `data:image/png;base64,${png.toString('base64')}` };
+    }
+
+    return {
+      imageUrl: `data:image/svg+xml;base64,${Buffer.from(svg).toString('base64')}`,
+    };
+  }
+}
+
+// Render an SVG whose colors and shapes are derived from a hash of the prompt
+// (and seed), with the prompt itself written across the image. Each index
+// gives a different image for the same request.
+export function renderPlaceholderSvg(
+  request: ImageGenerationRequest,
+  index = 0
+): string {
+  const { prompt, width, height, seed } = request;
+  const hash = crypto
+    .createHash('sha256')
+    .update(
+      `${seed !== undefined ? `${seed}:` : ''}${index > 0 ? `#${index}:` : ''}${prompt}`
+    )
+    .digest();
+
+  const hue = Math.round((hash[0] / 255) * 360);
+  const accentHue = (hue + 120 + hash[1]) % 360;
+  const background = `hsl(${hue}, 55%, 85%)`;
+  const accent = `hsl(${accentHue}, 60%, 55%)`;
+
+  const shapes = Array.from({ length: 5 }, (_, i) => {
+    const cx = Math.round((hash[2 + i * 3] / 255) * width);
+    const cy = Math.round((hash[3 + i * 3] / 255) * height);
+    const r = Math.round(
+      ((hash[4 + i * 3] / 255) * Math.min(width, height)) / 5
+    );
+    return `<circle cx="${cx}" cy="${cy}" r="${r}" fill="${accent}" fill-opacity="0.35"/>`;
+  }).join('');
+
+  const fontSize = Math.max(12, Math.round(width / 28));
+  const maxCharsPerLine = Math.floor((width - 40) / (fontSize * 0.55));
+  const lines = wrapText(prompt, maxCharsPerLine).slice(0, 12);
+  const text = lines
+    .map(
+      (line, i) =>
+        `<tspan x="20" dy="${i === 0 ? 0 : fontSize * 1.3}">${escapeXml(line)}</tspan>`
+    )
+    .join('');
+
+  return `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}">
+<rect width="${width}" height="${height}" fill="${background}"/>
+${shapes}
+<rect x="10" y="10" width="${width - 20}" height="${height - 20}" fill="none" stroke="#333" stroke-width="4"/>
+<text x="20" y="${20 + fontSize * 1.5}" font-family="sans-serif" font-size="${fontSize}" fill="#222">${text}</text>
+</svg>`;
+}
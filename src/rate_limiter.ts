@@ -0,0 +1,63 @@
+import express from 'express';
+import { getUserId } from './auth';
+
+// Allows each key at most `limit` hits in any rolling window of `windowMs`
+export class SlidingWindowRateLimiter {
+  private readonly limit: number;
+  private readonly windowMs: number;
+  private readonly hits = new Map<string, number[]>();
+
+  constructor(limit: number, windowMs: number) {
+    this.limit = limit;
+    this.windowMs = windowMs;
+  }
+
+  // Record a hit for the key. Returns 0 if it is allowed, otherwise the
+  // number of milliseconds until it would be.
+  take(key: string, now = Date.now()): number {
+    const windowStart = now - this.windowMs;
+    const recent = (this.hits.get(key) ?? []).filter((t) => t > windowStart);
+
+    if (recent.length >= this.limit) {
+      this.hits.set(key, recent);
+      return recent[0] + this.windowMs - now;
+    }
+
+    recent.push(now);
+    this.hits.set(key, recent);
+    return 0;
+  }
+
+  // Forget keys with no hits in the current window
+  prune(now = Date.now()) {
+    const windowStart = now - this.windowMs;
+    for (const [key, times] of this.hits) {
+      if (times.every((t) => t <= windowStart)) {
+        this.hits.delete(key);
+      }
+    }
+  }
+}
+
+// Per-user request rate limit for the API. A limit of 0 disables it.
+export function rateLimitPerUser(requestsPerMinute: number) {
+  const limiter = new SlidingWindowRateLimiter(requestsPerMinute, 60 * 1000);
+  setInterval(() => limiter.prune(), 60 * 1000).unref();
+
+  const middleware: express.RequestHandler = (_req, res, next) => {
+    if (requestsPerMinute <= 0) {
+      return next();
+    }
+
+    const retryAfterMs = limiter.take(getUserId(res));
+    if (retryAfterMs > 0) {
+      res.setHeader('Retry-After', String(Math.ceil(retryAfterMs / 1000)));
+      return res
+        .status(429)
+        .json({ error: 'Too many requests, please slow down' });
+    }
+
+    return next();
+  };
+  return middleware;
+}
@@ -0,0 +1,71 @@
+// Helpers for laying out text inside generated SVG images
+
+// Full-width characters (CJK, kana, hangul and full-width forms) take about
+// the space of two Latin characters
+const WIDE_CHARACTER =
+  /[\u1100-\u115f\u2e80-\ua4cf\uac00-\ud7a3\uf900-\ufaff\ufe30-\ufe4f\uff00-\uff60\uffe0-\uffe6]/u;
+
+// Greedy word wrap into lines of at most maxCharsPerLine characters, with
+// full-width characters counted twice. Words that do not fit on a line, such
+// as Chinese or Japanese sentences written without spaces, are broken
+// wherever the line is full.
+export function wrapText(text: string, maxCharsPerLine: number): string[] {
+  const lines: string[] = [];
+  let current = '';
+
+  const words = text
+    .split(/\s+/)
+    .filter(Boolean)
+    .flatMap((word) => splitLongWord(word, maxCharsPerLine));
+
+  for (const word of words) {
+    if (current && textWidth(current) + textWidth(word) + 1 > maxCharsPerLine) {
+      lines.push(current);
+      current = word;
+    } else {
+      current = current ? `${current} ${word}` : word;
+    }
+  }
+
+  if (current) {
+    lines.push(current);
+  }
+
+  return lines;
+}
+
+// Width of text in Latin characters, with full-width characters counted twice
+export function textWidth(text: string): number {
+  let width = 0;
+  for (const character of text) {
+    width += WIDE_CHARACTER.test(character) ? 2 : 1;
+  }
+  return width;
+}
+
+function splitLongWord(word: string, maxWidth: number): string[] {
+  if (textWidth(word) <= maxWidth) {
+    return [word];
+  }
+
+  const chunks: string[] = [];
+  let chunk = '';
+  for (const character of word) {
+    if (chunk && textWidth(chunk) + textWidth(character) > maxWidth) {
+      chunks.push(chunk);
+      chunk = '';
+    }
+    chunk += character;
+  }
+  chunks.push(chunk);
+  return chunks;
+}
+
+export function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
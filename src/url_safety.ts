@@ -0,0 +1,100 @@
+import dns, { LookupAddress } from 'dns';
+import net from 'net';
+
+// Addresses a URL given by a user must not reach: this host, private
+// networks, link-local addresses such as cloud metadata endpoints, and the
+// other reserved ranges
+const PRIVATE_ADDRESSES = new net.BlockList();
+for (const [network, prefix] of [
+  ['0.0.0.0', 8],
+  ['10.0.0.0', 8],
+  ['100.64.0.0', 10], // Carrier-grade NAT
+  ['127.0.0.0', 8],
+  ['169.254.0.0', 16],
+  ['172.16.0.0', 12],
+  ['192.0.0.0', 24],
+  ['192.168.0.0', 16],
+  ['198.18.0.0', 15],
+  ['224.0.0.0', 3], // Multicast and reserved, up to 255.255.255.255
+] as const) {
+  PRIVATE_ADDRESSES.addSubnet(network, prefix, 'ipv4');
+}
+for (const [network, prefix] of [
+  ['::', 127], // Unspecified and loopback
+  ['64:ff9b::', 96], // IPv4 translation
+  ['fc00::', 7], // Unique local
+  ['fe80::', 10], // Link-local
+  ['ff00::', 8], // Multicast
+] as const) {
+  PRIVATE_ADDRESSES.addSubnet(network, prefix, 'ipv6');
+}
+
+const IPV4_MAPPED_PATTERN = /^::ffff:(\d+\.\d+\.\d+\.\d+)$/i;
+
+export class UnsafeUrlError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'UnsafeUrlError';
+  }
+}
+
+export function isPrivateAddress(address: string): boolean {
+  const mapped = IPV4_MAPPED_PATTERN.exec(address);
+  if (mapped) {
+    return isPrivateAddress(mapped[1]);
+  }
+  switch (net.isIP(address)) {
+    case 4:
+      return PRIVATE_ADDRESSES.check(address, 'ipv4');
+    case 6:
+      return PRIVATE_ADDRESSES.check(address, 'ipv6');
+    default:
+      return false;
+  }
+}
+
+// Throw unless the URL may be requested on a user's behalf: it must be
+// https: and must not name a private address or localhost. Host names are
+// checked again when they are resolved, by lookupPublicAddress.
+export function assertPublicUrl(url: string | URL): URL {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    throw new UnsafeUrlError('URL is not valid');
+  }
+  if (parsed.protocol !== 'https:') {
+    throw new UnsafeUrlError('URL must be an https: URL');
+  }
+
+  // URL keeps IPv6 addresses in brackets
+  const host = parsed.hostname.replace(/^\[(.*)\]$/, '$1').toLowerCase();
+  if (
+    host === 'localhost' ||
+    host.endsWith('.localhost') ||
+    isPrivateAddress(host)
+  ) {
+    throw new UnsafeUrlError(`URL host ${parsed.hostname} is not public`);
+  }
+  return parsed;
+}
+
+// Replacement for the DNS lookup of outgoing requests to URLs given by users
+// (axios' "lookup" option). A name that resolves to a private address is
+// refused when the connection is made, so it cannot be re-pointed between
+// validation and the request, or after a redirect.
+export async function lookupPublicAddress(
+  hostname: string
+): Promise<LookupAddress> {
+  const addresses = await dns.promises.lookup(hostname, { all: true });
+  const unsafe = addresses.find(({ address }) => isPrivateAddress(address));
+  if (unsafe) {
+    throw new UnsafeUrlError(
+      `${hostname} resolves to ${unsafe.address}, which is not public`
+    );
+  }
+  if (addresses.length === 0) {
+    throw new UnsafeUrlError(`${hostname} has no addresses`);
+  }
+  return addresses[0];
+}
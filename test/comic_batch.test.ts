@@ -0,0 +1,30 @@
+import assert from 'node:assert/strict';
+import { spawnSync } from 'node:child_process';
+import path from 'node:path';
+import { describe, it } from 'node:test';
+
+const REPO_ROOT = path.join(__dirname, '..');
+
+function runBatch(...args: string[]) {
+  return spawnSync(
+    process.execPath,
+    ['--import', 'tsx', path.join('src', 'comic_batch.ts'), ...args],
+    { cwd: REPO_ROOT, encoding: 'utf8', timeout: 60000 }
+  );
+}
+
+describe('batch command line', () => {
+  it('prints the usage for --help', () => {
+    const { status, stdout } = runBatch('--help');
+
+    assert.equal(status, 0);
+    assert.match(stdout, /^Usage: npm run batch -- /);
+  });
+
+  it('fails without a manifest', () => {
+    const { status, stderr } = runBatch();
+
+    assert.equal(status, 1);
+    assert.match(stderr, /Usage: npm run batch -- /);
+  });
+});
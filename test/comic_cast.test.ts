@@ -0,0 +1,87 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { parseComicCast } from '../src/comic_cast';
+import {
+  ComicCharacter,
+  characterAppearancePrompt,
+  findPanelCharacters,
+} from '../src/comic_characters';
+
+const whiskers: ComicCharacter = {
+  id: 'whiskers-id',
+  name: 'Whiskers',
+  appearance: 'orange tabby cat, green scarf',
+  referenceImageAssetId: 'whiskers-reference',
+  seed: 7,
+};
+
+const findCharacter = async (id: string) =>
+  id === whiskers.id ? whiskers : undefined;
+
+describe('parseComicCast', () => {
+  it('takes the description of a saved character', async () => {
+    const parsed = await parseComicCast(
+      { characters: [{ characterId: whiskers.id }] },
+      findCharacter
+    );
+
+    assert.ok(typeof parsed !== 'string');
+    assert.deepEqual(parsed.cast, [
+      {
+        name: 'Whiskers',
+        description: 'Appearance: orange tabby cat, green scarf.',
+        role: undefined,
+        characterId: whiskers.id,
+      },
+    ]);
+    assert.deepEqual(parsed.characters, [whiskers]);
+  });
+
+  it('renames a saved character to its cast name', async () => {
+    const parsed = await parseComicCast(
+      {
+        characters: [
+          { name: 'Captain Paws', characterId: whiskers.id },
+          { name: 'Bolt', description: 'a small round robot' },
+        ],
+      },
+      findCharacter
+    );
+
+    assert.ok(typeof parsed !== 'string');
+    assert.equal(parsed.cast[0].name, 'Captain Paws');
+    assert.deepEqual(parsed.characters, [
+      { ...whiskers, name: 'Captain Paws' },
+    ]);
+
+    // Panels name the character as the script does, which is the cast name
+    const panelCharacters = findPanelCharacters(
+      {
+        dialogueText: 'Captain Paws: Onward!',
+        visualDescription: 'Captain Paws stands on the bow of a ship',
+        characters: ['Captain Paws', 'Bolt'],
+      },
+      parsed.characters
+    );
+    assert.equal(panelCharacters.length, 1);
+    assert.equal(panelCharacters[0].seed, 7);
+    assert.equal(
+      panelCharacters[0].referenceImageAssetId,
+      'whiskers-reference'
+    );
+    assert.equal(
+      characterAppearancePrompt(panelCharacters),
+      'Captain Paws: orange tabby cat, green scarf'
+    );
+  });
+
+  it('rejects unknown saved characters', async () => {
+    assert.equal(
+      await parseComicCast(
+        { characters: [{ characterId: 'missing' }] },
+        findCharacter
+      ),
+      'Saved character 1 not found'
+    );
+  });
+});
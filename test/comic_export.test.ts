@@ -0,0 +1,74 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { UnsupportedExportTextError, exportComic } from '../src/comic_export';
+import { createComicLayout } from '../src/comic_layout';
+import { ComicRequest } from '../src/comic_repository';
+
+// A finished one-panel comic whose panel image failed, so nothing needs to
+// be loaded from an asset store
+function finishedComic(title: string, line: string): ComicRequest {
+  return {
+    id: 'export-comic',
+    cast: [{ name: 'Mira', description: 'a girl with red pigtails' }],
+    artStyle: 'cartoon style',
+    panelCount: 1,
+    layout: 'strip',
+    status: 'completed',
+    createdAt: new Date('2026-01-01T00:00:00Z'),
+    result: {
+      title,
+      artStyle: 'cartoon style',
+      layout: createComicLayout('strip', 1),
+      panels: [
+        {
+          panelNumber: 1,
+          dialogueText: `Mira: ${line}`,
+          dialogue: [{ speaker: 'Mira', text: line }],
+          captions: [],
+          soundEffects: [],
+          visualDescription: 'Mira waves',
+          imageUrl: '',
+        },
+      ],
+    },
+  };
+}
+
+describe('exportComic', () => {
+  it('exports Latin text, accents and typographic quotes as PDF', async () => {
+    const { data, contentType, fileName } = await exportComic(
+      finishedComic('Café “Crème”', 'Ça va? Très bien… — €5'),
+      'pdf'
+    );
+
+    assert.equal(contentType, 'application/pdf');
+    assert.equal(fileName, 'caf-cr-me.pdf');
+    assert.equal(data.subarray(0, 5).toString(), '%PDF-');
+  });
+
+  for (const [language, line] of [
+    ['Japanese', 'クッキーはどこ？'],
+    ['Russian', 'Где печенье?'],
+    ['Arabic', 'أين الكعكة؟'],
+  ]) {
+    it(`refuses a PDF of ${language} text the fonts cannot render`, async () => {
+      await assert.rejects(
+        exportComic(finishedComic('The Last Cookie', line), 'pdf'),
+        (error: unknown) =>
+          error instanceof UnsupportedExportTextError &&
+          error.message.startsWith(
+            `PDF export cannot render characters such as "${Array.from(line)[0]}"`
+          )
+      );
+    });
+  }
+
+  it('exports non-Latin text as HTML', async () => {
+    const { data } = await exportComic(
+      finishedComic('The Last Cookie', 'クッキーはどこ？'),
+      'html'
+    );
+
+    assert.match(data.toString('utf8'), /クッキーはどこ？/);
+  });
+});
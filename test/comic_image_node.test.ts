@@ -0,0 +1,202 @@
+import assert from 'node:assert/strict';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { after, afterEach, before, beforeEach, describe, it } from 'node:test';
+import {
+  AssetStore,
+  panelCandidateImageUrl,
+  panelImageUrl,
+} from '../src/asset_store';
+import { ComicProgressEvent, comicEvents } from '../src/comic_events';
+import {
+  COMIC_FRESH_DATASTORE_KEY,
+  COMIC_REQUEST_ID_DATASTORE_KEY,
+  ComicImageGeneratorNode,
+} from '../src/comic_image_node';
+import { createComicLayout } from '../src/comic_layout';
+import { ComicStoryOutput } from '../src/comic_story_node';
+import { MockMiniMaxServer } from './helpers/mock_minimax_server';
+import { createProcessContext } from './helpers/process_context';
+
+const story: ComicStoryOutput = {
+  title: 'The Last Cookie',
+  artStyle: 'cartoon style',
+  layout: createComicLayout('strip', 1),
+  panels: [
+    {
+      panelNumber: 1,
+      dialogueText: 'Mira: Bolt!',
+      dialogue: [{ speaker: 'Mira', text: 'Bolt!' }],
+      visualDescription: 'Bolt with cookie crumbs spilling from its chest',
+      shotType: 'close_up',
+    },
+  ],
+};
+
+describe('ComicImageGeneratorNode', () => {
+  const minimax = new MockMiniMaxServer();
+  let assetDir: string;
+  let requestId: string;
+  let events: ComicProgressEvent[];
+  let unsubscribe: () => void;
+
+  before(async () => {
+    await minimax.start();
+    process.env.MINIMAX_API_KEY = 'test-key';
+    process.env.MINIMAX_API_URL = minimax.url;
+  });
+
+  beforeEach(async () => {
+    minimax.reset();
+    assetDir = await fs.mkdtemp(path.join(os.tmpdir(), 'comic-assets-'));
+    requestId = `comic-${Date.now()}`;
+    events = [];
+    unsubscribe = comicEvents.subscribe(requestId, (event) =>
+      events.push(event)
+    );
+  });
+
+  afterEach(async () => {
+    unsubscribe();
+    delete process.env.MINIMAX_TIMEOUT_MS;
+    await fs.rm(assetDir, { recursive: true, force: true });
+  });
+
+  after(async () => {
+    delete process.env.MINIMAX_API_KEY;
+    delete process.env.MINIMAX_API_URL;
+    await minimax.stop();
+  });
+
+  // Draw the story's panels with MiniMax, keeping images in assetDir
+  function drawPanels(candidates?: number) {
+    const { context } = createProcessContext(
+      { imageProvider: 'minimax', assetDir, candidates },
+      {
+        [COMIC_REQUEST_ID_DATASTORE_KEY]: requestId,
+        [COMIC_FRESH_DATASTORE_KEY]: true, // Never reuse another test's image
+      }
+    );
+    return new ComicImageGeneratorNode().process(context, story);
+  }
+
+  const ofType = <T extends ComicProgressEvent['type']>(type: T) =>
+    events.filter(
+      (event): event is Extract<ComicProgressEvent, { type: T }> =>
+        event.type === type
+    );
+
+  it('stores the panel image and serves it from a stable URL', async () => {
+    minimax.reply({ fixture: 'image_generation_success' });
+
+    const result = await drawPanels();
+
+    const [panel] = result.panels;
+    assert.equal(panel.imageUrl, panelImageUrl(requestId, 1));
+    assert.ok(panel.assetId);
+    assert.equal(panel.candidates, undefined);
+    const image = await new AssetStore(assetDir).getImage(panel.assetId);
+    assert.ok(image && image.length > 0);
+
+    assert.match(
+      minimax.requests[0].body.prompt as string,
+      /^close-up shot on the face: Bolt with cookie crumbs spilling from its chest, cartoon style/
+    );
+    assert.deepEqual(
+      events.map((event) => event.type),
+      ['images_started', 'panel_started', 'panel_completed']
+    );
+  });
+
+  it('keeps every candidate image and selects the first', async () => {
+    minimax.reply({ fixture: 'image_generation_three_candidates' });
+
+    const result = await drawPanels(3);
+
+    const [panel] = result.panels;
+    assert.equal(minimax.requests[0].body.n, 3);
+    assert.equal(panel.selectedCandidate, 1);
+    assert.deepEqual(
+      panel.candidates?.map((candidate) => candidate.imageUrl),
+      [1, 2, 3].map((n) => panelCandidateImageUrl(requestId, 1, n))
+    );
+    assert.equal(panel.assetId, panel.candidates?.[0].assetId);
+    // The mock serves a different image for each candidate
+    assert.equal(
+      new Set(panel.candidates?.map((candidate) => candidate.assetId)).size,
+      3
+    );
+  });
+
+  it('retries after a MiniMax base_resp error', async () => {
+    minimax.reply(
+      { fixture: 'image_generation_rate_limited' },
+      { fixture: 'image_generation_success' }
+    );
+
+    const result = await drawPanels();
+
+    assert.equal(result.panels[0].imageUrl, panelImageUrl(requestId, 1));
+    assert.equal(minimax.requests.length, 2);
+    assert.deepEqual(ofType('panel_retrying'), [
+      {
+        type: 'panel_retrying',
+        panelNumber: 1,
+        attempt: 1,
+        delayMs: 1000,
+        error:
+          'No images received from MiniMax API. Status Code: 1002, Status Message: rate limit exceeded(RPM)',
+      },
+    ]);
+    assert.deepEqual(
+      ofType('panel_started').map((event) => event.attempt),
+      [1, 2]
+    );
+  });
+
+  it('backs off exponentially and gives up after three attempts', async () => {
+    minimax.reply(
+      { fixture: 'image_generation_sensitive' },
+      { fixture: 'image_generation_rate_limited' },
+      { fixture: 'image_generation_sensitive' }
+    );
+
+    const started = Date.now();
+    const result = await drawPanels();
+
+    assert.ok(Date.now() - started >= 3000);
+    assert.equal(minimax.requests.length, 3);
+    // An empty image URL marks the failed panel; the comic still completes
+    assert.equal(result.panels[0].imageUrl, '');
+    assert.equal(result.title, 'The Last Cookie');
+    assert.deepEqual(
+      ofType('panel_retrying').map((event) => event.delayMs),
+      [1000, 2000]
+    );
+    assert.deepEqual(ofType('panel_failed'), [
+      {
+        type: 'panel_failed',
+        panelNumber: 1,
+        error:
+          'No image URL received from MiniMax API. Status Code: 1026, Status Message: input new_sensitive',
+      },
+    ]);
+    assert.equal(ofType('panel_completed').length, 0);
+  });
+
+  it('retries a timed out MiniMax request', async () => {
+    process.env.MINIMAX_TIMEOUT_MS = '200';
+    minimax.reply(
+      { fixture: 'image_generation_success', delayMs: 1000 },
+      { fixture: 'image_generation_success' }
+    );
+
+    const result = await drawPanels();
+
+    assert.equal(result.panels[0].imageUrl, panelImageUrl(requestId, 1));
+    assert.equal(minimax.requests.length, 2);
+    const [retry] = ofType('panel_retrying');
+    assert.equal(retry.error, 'timeout of 200ms exceeded');
+  });
+});
@@ -0,0 +1,55 @@
+import assert from 'node:assert/strict';
+import fs from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import { after, before, describe, it } from 'node:test';
+import { readComicManifest } from '../src/comic_manifest';
+import { loadModelsConfig } from '../src/generation_options';
+
+describe('readComicManifest', () => {
+  let dir: string;
+
+  before(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'comic-manifest-'));
+  });
+
+  after(() => fs.rm(dir, { recursive: true, force: true }));
+
+  async function readCsv(content: string) {
+    const file = path.join(dir, 'manifest.csv');
+    await fs.writeFile(file, content);
+    return readComicManifest(file, loadModelsConfig());
+  }
+
+  it('nests dotted CSV columns and lists numbered ones', async () => {
+    const [row] = await readCsv(
+      [
+        'id,artStyle,panelCount,characters.1.name,characters.1.description,characters.2.name,characters.2.description',
+        'cookie,cartoon style,2,Mira,a girl with red pigtails,Bolt,a small round robot',
+      ].join('\n')
+    );
+
+    assert.equal(row.id, 'cookie');
+    assert.equal(row.input.panelCount, 2);
+    assert.deepEqual(
+      row.input.cast.map((member) => member.name),
+      ['Mira', 'Bolt']
+    );
+  });
+
+  for (const column of [
+    '__proto__.polluted',
+    'llm.constructor.prototype.polluted',
+    'characters.1.__proto__',
+  ]) {
+    it(`refuses the CSV column ${column}`, async () => {
+      await assert.rejects(
+        readCsv(
+          `artStyle,characters.1.name,characters.1.description,${column}\ncartoon style,Mira,a girl,yes\n`
+        ),
+        { message: `CSV column "${column}" is not allowed` }
+      );
+      assert.equal(({} as Record<string, unknown>).polluted, undefined);
+    });
+  }
+});
@@ -0,0 +1,37 @@
+import assert from 'node:assert/strict';
+import fs from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import { after, before, describe, it } from 'node:test';
+import { JsonFileDailyQuota } from '../src/comic_quota';
+
+describe('JsonFileDailyQuota', () => {
+  let dataDir: string;
+
+  before(async () => {
+    dataDir = await fs.mkdtemp(path.join(os.tmpdir(), 'comic-quota-'));
+  });
+
+  after(() => fs.rm(dataDir, { recursive: true, force: true }));
+
+  it('lets only the daily number of concurrent starts through', async () => {
+    const quota = new JsonFileDailyQuota({ dataDir, limit: 2 });
+    await quota.init();
+    const today = new Date('2026-03-01T10:00:00Z');
+
+    const taken = await Promise.all(
+      Array.from({ length: 5 }, () => quota.take('alice', today))
+    );
+    assert.deepEqual(taken, [true, true, false, false, false]);
+    assert.equal(await quota.take('bob', today), true);
+
+    // The counts survive a restart, and start again the next UTC day
+    const restarted = new JsonFileDailyQuota({ dataDir, limit: 2 });
+    await restarted.init();
+    assert.equal(await restarted.take('alice', today), false);
+    assert.equal(
+      await restarted.take('alice', new Date('2026-03-02T00:00:00Z')),
+      true
+    );
+  });
+});
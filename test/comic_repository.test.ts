@@ -0,0 +1,64 @@
+import assert from 'node:assert/strict';
+import fs from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import { after, before, describe, it } from 'node:test';
+import { ComicRequest, JsonFileComicRepository } from '../src/comic_repository';
+
+function comic(id: string, status: ComicRequest['status']): ComicRequest {
+  return {
+    id,
+    cast: [{ name: 'Mira', description: 'a girl with red pigtails' }],
+    artStyle: 'cartoon style',
+    panelCount: 2,
+    layout: 'strip',
+    status,
+    createdAt: new Date('2026-01-01T00:00:00Z'),
+  };
+}
+
+describe('JsonFileComicRepository', () => {
+  let dataDir: string;
+
+  before(async () => {
+    dataDir = await fs.mkdtemp(path.join(os.tmpdir(), 'comic-repository-'));
+  });
+
+  after(() => fs.rm(dataDir, { recursive: true, force: true }));
+
+  it('keeps old comics that are still in progress', async () => {
+    const repository = new JsonFileComicRepository({ dataDir });
+    await repository.init();
+    const statuses: ComicRequest['status'][] = [
+      'pending',
+      'generating_story',
+      'awaiting_approval',
+      'generating_images',
+      'completed',
+      'error',
+      'rejected',
+    ];
+    for (const status of statuses) {
+      await repository.save(comic(status, status));
+    }
+
+    assert.equal(
+      await repository.deleteOlderThan(new Date('2026-02-01T00:00:00Z')),
+      3
+    );
+
+    const kept = await repository.listRecent(Infinity);
+    assert.deepEqual(kept.map((request) => request.id).sort(), [
+      'awaiting_approval',
+      'generating_images',
+      'generating_story',
+      'pending',
+    ]);
+    assert.deepEqual((await fs.readdir(path.join(dataDir, 'comics'))).sort(), [
+      'awaiting_approval.json',
+      'generating_images.json',
+      'generating_story.json',
+      'pending.json',
+    ]);
+  });
+});
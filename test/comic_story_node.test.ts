@@ -0,0 +1,203 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { GraphTypes } from '@inworld/runtime/common';
+import { createComicLayout } from '../src/comic_layout';
+import {
+  COMIC_CAST_DATASTORE_KEY,
+  COMIC_LANGUAGE_DATASTORE_KEY,
+  COMIC_LAYOUT_DATASTORE_KEY,
+  COMIC_PROMPT_TOKENS_DATASTORE_KEY,
+  ComicStoryGeneratorNode,
+  ComicStoryInput,
+  parseComicStoryResponse,
+} from '../src/comic_story_node';
+import { loadLlmFixture } from './helpers/fixtures';
+import { createProcessContext } from './helpers/process_context';
+
+const cast = [
+  { name: 'Mira', description: 'a girl with red pigtails' },
+  { name: 'Bolt', description: 'a small round robot' },
+];
+const layout = createComicLayout('strip', 2);
+
+function promptOf(request: GraphTypes.LLMChatRequest): string {
+  const { messages } = request as unknown as {
+    messages: { role: string; content: string }[];
+  };
+  assert.equal(messages.length, 1);
+  assert.equal(messages[0].role, 'user');
+  return messages[0].content;
+}
+
+describe('ComicStoryGeneratorNode', () => {
+  const input: ComicStoryInput = {
+    cast,
+    artStyle: 'cartoon style',
+    theme: 'a missing cookie',
+    panelCount: 2,
+    layout: 'strip',
+  };
+
+  it('asks the LLM for a script with the requested cast and panels', () => {
+    const { context } = createProcessContext();
+    const prompt = promptOf(
+      new ComicStoryGeneratorNode().process(context, input)
+    );
+
+    assert.match(prompt, /Create a 2-panel comic story/);
+    assert.match(prompt, /- Mira: a girl with red pigtails/);
+    assert.match(prompt, /- Bolt: a small round robot/);
+    assert.match(prompt, /ART STYLE: cartoon style/);
+    assert.match(prompt, /THEME\/SETTING: a missing cookie/);
+    assert.doesNotMatch(prompt, /LANGUAGE:/);
+  });
+
+  it('stores what the response parser needs in the datastore', () => {
+    const { context, datastore } = createProcessContext();
+    new ComicStoryGeneratorNode().process(context, input);
+
+    assert.deepEqual(datastore.get(COMIC_LAYOUT_DATASTORE_KEY), layout);
+    assert.deepEqual(datastore.get(COMIC_CAST_DATASTORE_KEY), cast);
+    assert.equal(datastore.get(COMIC_LANGUAGE_DATASTORE_KEY), 'en');
+    assert.ok((datastore.get(COMIC_PROMPT_TOKENS_DATASTORE_KEY) as number) > 0);
+  });
+
+  it('asks for dialogue in the requested language', () => {
+    const { context, datastore } = createProcessContext();
+    const prompt = promptOf(
+      new ComicStoryGeneratorNode().process(context, {
+        ...input,
+        language: 'es',
+      })
+    );
+
+    assert.match(
+      prompt,
+      /LANGUAGE: Write the title, dialogue, captions, sound effects and character states in Spanish/
+    );
+    assert.equal(datastore.get(COMIC_LANGUAGE_DATASTORE_KEY), 'es');
+  });
+});
+
+describe('parseComicStoryResponse', () => {
+  it('parses a recorded script into panels', () => {
+    const result = parseComicStoryResponse(
+      loadLlmFixture('script_two_panels'),
+      layout,
+      cast
+    );
+
+    assert.ok(result.valid);
+    const { story } = result;
+    assert.equal(story.title, 'The Last Cookie');
+    assert.equal(story.artStyle, 'comic book style');
+    assert.deepEqual(story.layout, layout);
+    assert.deepEqual(
+      story.panels.map((panel) => panel.panelNumber),
+      [1, 2]
+    );
+    assert.deepEqual(story.panels[0].dialogue, [
+      { speaker: 'Mira', text: 'Bolt, did you see the cookie jar?' },
+      { speaker: 'Bolt', text: 'Beep. Jar status: unknown.' },
+    ]);
+    assert.equal(
+      story.panels[0].dialogueText,
+      'Mira: Bolt, did you see the cookie jar?\nBolt: Beep. Jar status: unknown.'
+    );
+    assert.deepEqual(story.panels[0].captions, [
+      'Saturday morning, in the kitchen...',
+    ]);
+    assert.deepEqual(story.panels[1].soundEffects, ['CRUNCH!']);
+    assert.equal(story.panels[0].shotType, 'medium');
+    assert.equal(story.panels[1].shotType, 'close_up');
+    // Names are spelled as in the cast
+    assert.equal(story.panels[1].speaker, 'Mira');
+    assert.deepEqual(
+      story.characterStates?.map((state) => state.name),
+      ['Mira', 'Bolt']
+    );
+  });
+
+  it('accepts a script wrapped in a markdown code fence', () => {
+    const fenced = parseComicStoryResponse(
+      loadLlmFixture('script_fenced'),
+      layout,
+      cast
+    );
+    const plain = parseComicStoryResponse(
+      loadLlmFixture('script_two_panels'),
+      layout,
+      cast
+    );
+
+    assert.ok(fenced.valid && plain.valid);
+    assert.deepEqual(fenced.story, plain.story);
+  });
+
+  it('rejects a truncated response as malformed JSON', () => {
+    const response = loadLlmFixture('script_truncated');
+    const result = parseComicStoryResponse(response, layout, cast);
+
+    assert.ok(!result.valid);
+    assert.equal(result.errors.length, 1);
+    assert.match(result.errors[0], /^Response is not valid JSON: /);
+    assert.equal(result.rawResponse, response);
+  });
+
+  it('rejects a script with text before the JSON', () => {
+    const result = parseComicStoryResponse(
+      loadLlmFixture('script_with_preamble'),
+      layout,
+      cast
+    );
+
+    assert.ok(!result.valid);
+    assert.match(result.errors[0], /^Response is not valid JSON: /);
+  });
+
+  it('rejects a script with the wrong number of panels', () => {
+    const result = parseComicStoryResponse(
+      loadLlmFixture('script_one_panel'),
+      layout,
+      cast
+    );
+
+    assert.ok(!result.valid);
+    assert.deepEqual(result.errors, [
+      'panels: must contain exactly 2 panel(s)',
+    ]);
+  });
+
+  it('rejects speakers and characters outside the cast', () => {
+    const result = parseComicStoryResponse(
+      loadLlmFixture('script_unknown_speaker'),
+      layout,
+      cast
+    );
+
+    assert.ok(!result.valid);
+    assert.deepEqual(result.errors, [
+      'panels.1.characters.0: "Zed" is not in the cast (Mira, Bolt)',
+      'panels.1.dialogue.0.speaker: "Zed" is not in the cast (Mira, Bolt)',
+    ]);
+  });
+
+  it('splits the dialogueText of older scripts into dialogue and captions', () => {
+    const result = parseComicStoryResponse(
+      loadLlmFixture('script_legacy_dialogue_text'),
+      layout,
+      cast
+    );
+
+    assert.ok(result.valid);
+    const [first, second] = result.story.panels;
+    assert.equal(result.story.artStyle, 'newspaper strip');
+    assert.deepEqual(first.dialogue, [
+      { speaker: 'Mira', text: 'Bolt, fetch the newspaper!' },
+    ]);
+    assert.deepEqual(first.characters, ['Mira', 'Bolt']);
+    assert.deepEqual(second.dialogue, []);
+    assert.deepEqual(second.captions, ['Ten minutes later...']);
+    assert.equal(second.speaker, undefined);
+  });
+});
@@ -0,0 +1,111 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { ComicImageOutput } from '../src/comic_image_node';
+import { createComicLayout } from '../src/comic_layout';
+import {
+  ComicTranslation,
+  applyComicTranslation,
+  hasSamePanelText,
+  withStalePanel,
+} from '../src/comic_translation_node';
+
+const comic: ComicImageOutput = {
+  title: 'The Last Cookie',
+  artStyle: 'cartoon style',
+  layout: createComicLayout('strip', 2),
+  language: 'en',
+  panels: [
+    {
+      panelNumber: 1,
+      dialogueText: 'Mira: Where is the cookie?',
+      dialogue: [{ speaker: 'Mira', text: 'Where is the cookie?' }],
+      captions: [],
+      soundEffects: [],
+      visualDescription: 'Mira points at an empty cookie jar',
+      imageUrl: '',
+    },
+    {
+      panelNumber: 2,
+      dialogueText: 'Bolt: Beep.',
+      dialogue: [{ speaker: 'Bolt', text: 'Beep.' }],
+      captions: [],
+      soundEffects: ['CRUNCH!'],
+      visualDescription: 'Bolt with cookie crumbs on its chest',
+      imageUrl: '',
+    },
+  ],
+};
+
+const spanish: ComicTranslation = {
+  language: 'es',
+  title: 'La última galleta',
+  panels: [
+    {
+      panelNumber: 1,
+      dialogueText: 'Mira: ¿Dónde está la galleta?',
+      dialogue: [{ speaker: 'Mira', text: '¿Dónde está la galleta?' }],
+      captions: [],
+      soundEffects: [],
+    },
+    {
+      panelNumber: 2,
+      dialogueText: 'Bolt: Bip.',
+      dialogue: [{ speaker: 'Bolt', text: 'Bip.' }],
+      captions: [],
+      soundEffects: ['¡CRUNCH!'],
+    },
+  ],
+  translatedAt: '2026-01-01T00:00:00.000Z',
+};
+
+describe('hasSamePanelText', () => {
+  it('ignores everything but the lettered text', () => {
+    const [panel] = comic.panels;
+    const redrawn = { ...panel, visualDescription: 'Mira sighs' };
+    assert.ok(hasSamePanelText(panel, redrawn));
+    // Panels from older scripts leave the lists unset
+    assert.ok(
+      hasSamePanelText(
+        { dialogueText: 'Mira: Hi', dialogue: [], captions: [] },
+        { dialogueText: 'Mira: Hi', dialogue: [] }
+      )
+    );
+  });
+
+  it('notices edited dialogue, captions and sound effects', () => {
+    const [panel] = comic.panels;
+    for (const edit of [
+      { dialogue: [{ speaker: 'Mira', text: 'Bolt?' }] },
+      { captions: ['Later...'] },
+      { soundEffects: ['BANG!'] },
+    ]) {
+      assert.ok(!hasSamePanelText(panel, { ...panel, ...edit }));
+    }
+  });
+});
+
+describe('withStalePanel', () => {
+  it('shows the edited panel untranslated until translated again', () => {
+    const edited: ComicImageOutput = {
+      ...comic,
+      panels: [
+        comic.panels[0],
+        {
+          ...comic.panels[1],
+          dialogueText: 'Bolt: Beep boop.',
+          dialogue: [{ speaker: 'Bolt', text: 'Beep boop.' }],
+        },
+      ],
+    };
+
+    const stale = withStalePanel(spanish, 2);
+    assert.deepEqual(stale.stalePanels, [2]);
+    assert.deepEqual(withStalePanel(stale, 1).stalePanels, [1, 2]);
+    assert.deepEqual(withStalePanel(stale, 2).stalePanels, [2]);
+
+    const [first, second] = applyComicTranslation(edited, stale).panels;
+    assert.equal(first.dialogueText, 'Mira: ¿Dónde está la galleta?');
+    assert.equal(second.dialogueText, 'Bolt: Beep boop.');
+    assert.deepEqual(second.soundEffects, ['CRUNCH!']);
+  });
+});
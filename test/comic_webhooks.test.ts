@@ -0,0 +1,74 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import {
+  WebhookDeliveryAttempt,
+  deliverWebhook,
+  forgetCallbackSecret,
+  parseComicCallback,
+  rememberCallbackSecret,
+} from '../src/comic_webhooks';
+
+describe('parseComicCallback', () => {
+  it('accepts https: callbacks to public hosts', () => {
+    assert.deepEqual(
+      parseComicCallback({
+        callbackUrl: 'https://hooks.example.com/comics',
+        callbackSecret: 'shh',
+      }),
+      {
+        callback: { url: 'https://hooks.example.com/comics', hasSecret: true },
+        secret: 'shh',
+      }
+    );
+    assert.equal(parseComicCallback({}), undefined);
+  });
+
+  it('refuses plain http: and private hosts', () => {
+    for (const [callbackUrl, error] of [
+      ['http://hooks.example.com/comics', 'callbackUrl must be an https: URL'],
+      ['https://localhost:8080/', 'callbackUrl host localhost is not public'],
+      ['https://10.0.0.5/hooks', 'callbackUrl host 10.0.0.5 is not public'],
+      [
+        'https://169.254.169.254/latest/meta-data/',
+        'callbackUrl host 169.254.169.254 is not public',
+      ],
+      ['https://[fd00::1]/', 'callbackUrl host [fd00::1] is not public'],
+      ['hooks', 'callbackUrl is not valid'],
+    ]) {
+      assert.equal(parseComicCallback({ callbackUrl }), error, callbackUrl);
+    }
+  });
+
+  it('requires a callbackUrl for a secret', () => {
+    assert.equal(
+      parseComicCallback({ callbackSecret: 'shh' }),
+      'callbackSecret requires a callbackUrl'
+    );
+  });
+});
+
+describe('deliverWebhook', () => {
+  it('does not deliver unsigned once the secret is forgotten', async () => {
+    rememberCallbackSecret('comic-1', 'shh');
+    forgetCallbackSecret('comic-1');
+
+    const attempts: WebhookDeliveryAttempt[] = [];
+    const delivered = await deliverWebhook(
+      'comic-1',
+      { url: 'https://hooks.example.com/comics', hasSecret: true },
+      'completed',
+      {},
+      async (attempt) => {
+        attempts.push(attempt);
+      }
+    );
+
+    assert.equal(delivered, false);
+    assert.equal(attempts.length, 1);
+    assert.equal(
+      attempts[0].error,
+      'The callback secret was forgotten when the server restarted'
+    );
+    assert.equal(attempts[0].statusCode, undefined);
+  });
+});
@@ -0,0 +1,162 @@
+import { ChildProcess, spawn } from 'child_process';
+import fs from 'fs/promises';
+import net from 'net';
+import os from 'os';
+import path from 'path';
+import { ComicRequest } from '../../src/comic_repository';
+
+const REPO_ROOT = path.join(__dirname, '..', '..');
+const STARTUP_TIMEOUT_MS = 30000;
+
+export interface ComicServerOptions {
+  minimaxUrl: string; // MINIMAX_API_URL of the mock server
+  comics?: ComicRequest[]; // Stored comics the server starts with
+  env?: Record<string, string>;
+}
+
+// The comic server (src/index.ts) running in a child process against a
+// temporary data directory, so its routes can be tested over HTTP. The LLM
+// is never reached: tests drive the routes that only draw images.
+export class ComicServer {
+  private constructor(
+    readonly baseUrl: string,
+    readonly dataDir: string,
+    private readonly child: ChildProcess,
+    private readonly output: string[]
+  ) {}
+
+  static async start(options: ComicServerOptions): Promise<ComicServer> {
+    const dataDir = await fs.mkdtemp(path.join(os.tmpdir(), 'comic-test-'));
+    await fs.mkdir(path.join(dataDir, 'comics'));
+    for (const comic of options.comics ?? []) {
+      await fs.writeFile(
+        path.join(dataDir, 'comics', `${comic.id}.json`),
+        JSON.stringify(comic)
+      );
+    }
+
+    const port = await findFreePort();
+    const child = spawn(
+      process.execPath,
+      ['--import', 'tsx', path.join('src', 'index.ts')],
+      {
+        cwd: REPO_ROOT,
+        env: {
+          ...process.env,
+          PORT: String(port),
+          INWORLD_API_KEY: 'test-inworld-key',
+          IMAGE_PROVIDER: 'minimax',
+          MINIMAX_API_KEY: 'test-minimax-key',
+          MINIMAX_API_URL: options.minimaxUrl,
+          COMIC_DATA_DIR: dataDir,
+          COMIC_RETENTION_DAYS: '0', // Keep seeded comics however old
+          COMIC_API_KEYS: '',
+          COMIC_MODELS_CONFIG: '',
+          CONTENT_MODERATORS: 'blocklist',
+          RATE_LIMIT_PER_MINUTE: '0',
+          DAILY_COMIC_QUOTA: '0',
+          ...options.env,
+        },
+        stdio: ['ignore', 'pipe', 'pipe'],
+      }
+    );
+
+    const output: string[] = [];
+    const server = new ComicServer(
+      `http://127.0.0.1:${port}`,
+      dataDir,
+      child,
+      output
+    );
+    try {
+      await new Promise<void>((resolve, reject) => {
+        const timer = setTimeout(
+          () => reject(new Error('Comic server did not start in time')),
+          STARTUP_TIMEOUT_MS
+        );
+        const collect = (chunk: Buffer) => {
+          output.push(chunk.toString());
+          if (chunk.toString().includes('Comic Generator running on')) {
+            clearTimeout(timer);
+            resolve();
+          }
+        };
+        child.stdout!.on('data', collect);
+        child.stderr!.on('data', (chunk: Buffer) =>
+          output.push(chunk.toString())
+        );
+        child.once('exit', (code) => {
+          clearTimeout(timer);
+          reject(new Error(`Comic server exited with code ${code}`));
+        });
+      });
+    } catch (error) {
+      await server.stop();
+      throw new Error(
+        `${error instanceof Error ? error.message : error}\n${output.join('')}`
+      );
+    }
+    return server;
+  }
+
+  // Everything the server logged so far, for failing assertions
+  get log(): string {
+    return this.output.join('');
+  }
+
+  async stop(): Promise<void> {
+    if (this.child.exitCode === null && this.child.signalCode === null) {
+      const exited = new Promise((resolve) => this.child.once('exit', resolve));
+      // The Inworld runtime keeps the process alive past SIGTERM
+      this.child.kill('SIGKILL');
+      await exited;
+    }
+    await fs.rm(this.dataDir, { recursive: true, force: true });
+  }
+
+  request(method: string, pathname: string, body?: unknown): Promise<Response> {
+    return fetch(`${this.baseUrl}${pathname}`, {
+      method,
+      headers: body === undefined ? {} : { 'Content-Type': 'application/json' },
+      body: body === undefined ? undefined : JSON.stringify(body),
+    });
+  }
+
+  // Poll a comic's status until it leaves the in-progress states
+  async waitForComic(
+    requestId: string,
+    timeoutMs = 30000
+  ): Promise<{ status: string; [key: string]: unknown }> {
+    const deadline = Date.now() + timeoutMs;
+    while (Date.now() < deadline) {
+      const response = await this.request(
+        'GET',
+        `/api/comic-status/${requestId}`
+      );
+      const status = (await response.json()) as {
+        status: string;
+        [key: string]: unknown;
+      };
+      if (
+        !['pending', 'generating_story', 'generating_images'].includes(
+          status.status
+        )
+      ) {
+        return status;
+      }
+      await new Promise((resolve) => setTimeout(resolve, 200));
+    }
+    throw new Error(`Comic ${requestId} did not finish in time\n${this.log}`);
+  }
+}
+
+function findFreePort(): Promise<number> {
+  return new Promise((resolve, reject) => {
+    const probe = net.createServer();
+    probe.once('error', reject);
+    probe.listen(0, '127.0.0.1', () => {
+      const { port } = probe.address() as net.AddressInfo;
+      probe.close(() => resolve(port));
+    });
+  });
+}
@@ -0,0 +1,19 @@
+import fs from 'fs';
+import path from 'path';
+
+export const FIXTURES_DIR = path.join(__dirname, '..', 'fixtures');
+
+// A recorded LLM response, as the raw text the model returned
+export function loadLlmFixture(name: string): string {
+  return fs.readFileSync(path.join(FIXTURES_DIR, 'llm', `${name}.txt`), 'utf8');
+}
+
+// A recorded MiniMax response body. Image URLs are recorded as
+// "{{baseUrl}}/images/..." and point at the mock server they are replayed by.
+export function loadMiniMaxFixture(name: string, baseUrl: string): unknown {
+  const raw = fs.readFileSync(
+    path.join(FIXTURES_DIR, 'minimax', `${name}.json`),
+    'utf8'
+  );
+  return JSON.parse(raw.split('{{baseUrl}}').join(baseUrl));
+}
@@ -0,0 +1,135 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+import sharp from 'sharp';
+import { loadMiniMaxFixture } from './fixtures';
+
+// How the mock answers one image generation call: a recorded fixture or an
+// inline body, optionally after a delay to provoke client timeouts
+export interface MockMiniMaxReply {
+  fixture?: string;
+  body?: unknown;
+  status?: number; // HTTP status, 200 by default
+  delayMs?: number;
+}
+
+export interface RecordedMiniMaxRequest {
+  headers: http.IncomingHttpHeaders;
+  body: Record<string, unknown>;
+}
+
+const IMAGE_PATH_PATTERN = /^\/images\/([\w-]+)\.png$/;
+
+// Local stand-in for the MiniMax image generation API. Replies are queued by
+// the test and used in order; image URLs in them are served as small PNGs.
+export class MockMiniMaxServer {
+  readonly requests: RecordedMiniMaxRequest[] = [];
+  private readonly replies: MockMiniMaxReply[] = [];
+  private readonly images = new Map<string, Buffer>();
+  private readonly server = http.createServer((req, res) => {
+    this.handle(req, res).catch((error: unknown) => {
+      res.statusCode = 500;
+      res.end(String(error));
+    });
+  });
+  private port = 0;
+
+  get baseUrl(): string {
+    return `http://127.0.0.1:${this.port}`;
+  }
+
+  // URL to configure as MINIMAX_API_URL
+  get url(): string {
+    return `${this.baseUrl}/v1/image_generation`;
+  }
+
+  async start(): Promise<void> {
+    await new Promise<void>((resolve) =>
+      this.server.listen(0, '127.0.0.1', resolve)
+    );
+    this.port = (this.server.address() as AddressInfo).port;
+  }
+
+  async stop(): Promise<void> {
+    // Requests still waiting out a delay would keep the server open
+    this.server.closeAllConnections();
+    await new Promise<void>((resolve) => this.server.close(() => resolve()));
+  }
+
+  reply(...replies: MockMiniMaxReply[]): void {
+    this.replies.push(...replies);
+  }
+
+  // Forget queued replies and recorded requests between tests
+  reset(): void {
+    this.replies.length = 0;
+    this.requests.length = 0;
+  }
+
+  private async handle(req: http.IncomingMessage, res: http.ServerResponse) {
+    const image = req.method === 'GET' && IMAGE_PATH_PATTERN.exec(req.url!);
+    if (image) {
+      res.setHeader('Content-Type', 'image/png');
+      res.end(await this.renderImage(image[1]));
+      return;
+    }
+
+    if (req.method !== 'POST' || req.url !== '/v1/image_generation') {
+      res.statusCode = 404;
+      res.end();
+      return;
+    }
+
+    const chunks: Buffer[] = [];
+    for await (const chunk of req) {
+      chunks.push(chunk as Buffer);
+    }
+    this.requests.push({
+      headers: req.headers,
+      body: JSON.parse(Buffer.concat(chunks).toString('utf8')),
+    });
+
+    const reply = this.replies.shift();
+    if (!reply) {
+      res.statusCode = 500;
+      res.end('No reply queued for this MiniMax request');
+      return;
+    }
+
+    if (reply.delayMs) {
+      await new Promise((resolve) => setTimeout(resolve, reply.delayMs));
+    }
+    const body = reply.fixture
+      ? loadMiniMaxFixture(reply.fixture, this.baseUrl)
+      : reply.body;
+    res.statusCode = reply.status ?? 200;
+    res.setHeader('Content-Type', 'application/json');
+    res.end(JSON.stringify(body));
+  }
+
+  // A solid-color PNG, the same for every request of a name
+  private async renderImage(name: string): Promise<Buffer> {
+    let image = this.images.get(name);
+    if (!image) {
+      const hash = Array.from(name).reduce(
+        (sum, char) => (sum * 31 + char.charCodeAt(0)) % 0xffffff,
+        7
+      );
+      image = await sharp({
+        create: {
+          width: 64,
+          height: 64,
+          channels: 3,
+          background: {
+            r: hash & 0xff,
+            g: (hash >> 8) & 0xff,
+            b: (hash >> 16) & 0xff,
+          },
+        },
+      })
+        .png()
+        .toBuffer();
+      this.images.set(name, image);
+    }
+    return image;
+  }
+}
@@ -0,0 +1,35 @@
+import { ProcessContext } from '@inworld/runtime/graph';
+
+export interface TestProcessContext {
+  context: ProcessContext;
+  datastore: Map<string, unknown>;
+}
+
+// Stand-in for the context the graph executor passes to custom nodes, with
+// the datastore and execution config properties the nodes read. Like the
+// real datastore, add() keeps the first value stored under a key.
+export function createProcessContext(
+  properties: Record<string, unknown> = {},
+  entries: Record<string, unknown> = {}
+): TestProcessContext {
+  const datastore = new Map<string, unknown>(Object.entries(entries));
+  const context = {
+    nodeId: 'test-node',
+    isCancelled: false,
+    getDatastore: () => ({
+      add: (key: string, data: unknown) => {
+        if (datastore.has(key)) {
+          return false;
+        }
+        datastore.set(key, data);
+        return true;
+      },
+      get: (key: string) => datastore.get(key),
+    }),
+    getExecutionConfig: () => ({ properties }),
+    getExecutionId: () => 'test-execution',
+    getVariant: () => '',
+  };
+
+  return { context: context as unknown as ProcessContext, datastore };
+}
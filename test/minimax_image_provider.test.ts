@@ -0,0 +1,157 @@
+import assert from 'node:assert/strict';
+import { after, before, beforeEach, describe, it } from 'node:test';
+import { MiniMaxImageProvider } from '../src/minimax_image_provider';
+import { MockMiniMaxServer } from './helpers/mock_minimax_server';
+
+describe('MiniMaxImageProvider', () => {
+  const minimax = new MockMiniMaxServer();
+  let provider: MiniMaxImageProvider;
+
+  before(async () => {
+    await minimax.start();
+    provider = new MiniMaxImageProvider({
+      apiKey: 'test-key',
+      url: minimax.url,
+      timeoutMs: 500,
+    });
+  });
+
+  beforeEach(() => minimax.reset());
+
+  after(() => minimax.stop());
+
+  const request = {
+    prompt: 'A robot eating cookies, cartoon style',
+    width: 512,
+    height: 512,
+  };
+
+  it('sends the image request with the API key', async () => {
+    minimax.reply({ fixture: 'image_generation_success' });
+
+    const images = await provider.generateImages({
+      ...request,
+      seed: 42,
+      referenceImageUrl: 'data:image/png;base64,AAAA',
+    });
+
+    assert.deepEqual(images, [
+      { imageUrl: `${minimax.baseUrl}/images/panel-1.png` },
+    ]);
+    assert.equal(minimax.requests.length, 1);
+    const [{ headers, body }] = minimax.requests;
+    assert.equal(headers.authorization, 'Bearer test-key');
+    assert.deepEqual(body, {
+      model: 'image-01',
+      prompt: request.prompt,
+      width: 512,
+      height: 512,
+      response_format: 'url',
+      n: 1,
+      prompt_optimizer: true,
+      seed: 42,
+      subject_reference: [
+        { type: 'character', image_file: 'data:image/png;base64,AAAA' },
+      ],
+    });
+  });
+
+  it('returns every candidate image', async () => {
+    minimax.reply({ fixture: 'image_generation_three_candidates' });
+
+    const images = await provider.generateImages({ ...request, count: 3 });
+
+    assert.equal(minimax.requests[0].body.n, 3);
+    assert.deepEqual(
+      images.map(({ imageUrl }) => imageUrl),
+      [1, 2, 3].map((n) => `${minimax.baseUrl}/images/candidate-${n}.png`)
+    );
+  });
+
+  it('reports base_resp errors without image data', async () => {
+    minimax.reply({ fixture: 'image_generation_rate_limited' });
+
+    await assert.rejects(provider.generateImages(request), {
+      message:
+        'No images received from MiniMax API. Status Code: 1002, Status Message: rate limit exceeded(RPM)',
+    });
+  });
+
+  it('reports base_resp errors with no image URLs', async () => {
+    minimax.reply({ fixture: 'image_generation_sensitive' });
+
+    await assert.rejects(provider.generateImages(request), {
+      message:
+        'No image URL received from MiniMax API. Status Code: 1026, Status Message: input new_sensitive',
+    });
+  });
+
+  it('rejects responses without base_resp', async () => {
+    minimax.reply({ body: { data: { image_urls: [] } } });
+
+    await assert.rejects(provider.generateImages(request), {
+      message: 'Invalid response from MiniMax API',
+    });
+  });
+
+  it('rejects HTTP errors', async () => {
+    minimax.reply({ status: 503, body: { error: 'Service Unavailable' } });
+
+    await assert.rejects(provider.generateImages(request), {
+      message: 'Request failed with status code 503',
+    });
+  });
+
+  it('times out slow responses', async () => {
+    minimax.reply({ fixture: 'image_generation_success', delayMs: 2000 });
+
+    await assert.rejects(provider.generateImages(request), {
+      code: 'ECONNABORTED',
+      message: 'timeout of 500ms exceeded',
+    });
+  });
+
+  it('stops waiting when the request is aborted', async () => {
+    minimax.reply({ fixture: 'image_generation_success', delayMs: 2000 });
+    const controller = new AbortController();
+    setTimeout(() => controller.abort(), 50);
+
+    await assert.rejects(
+      provider.generateImages({ ...request, signal: controller.signal }),
+      { code: 'ERR_CANCELED' }
+    );
+  });
+
+  it('reads the endpoint and timeout from the environment', async () => {
+    process.env.MINIMAX_API_URL = minimax.url;
+    process.env.MINIMAX_TIMEOUT_MS = '100';
+    try {
+      minimax.reply({ fixture: 'image_generation_success', delayMs: 1000 });
+
+      await assert.rejects(
+        new MiniMaxImageProvider({ apiKey: 'test-key' }).generateImages(
+          request
+        ),
+        { message: 'timeout of 100ms exceeded' }
+      );
+      assert.equal(minimax.requests.length, 1);
+    } finally {
+      delete process.env.MINIMAX_API_URL;
+      delete process.env.MINIMAX_TIMEOUT_MS;
+    }
+  });
+
+  it('requires an API key', () => {
+    const apiKey = process.env.MINIMAX_API_KEY;
+    delete process.env.MINIMAX_API_KEY;
+    try {
+      assert.throws(() => new MiniMaxImageProvider(), {
+        message: 'MINIMAX_API_KEY environment variable is required',
+      });
+    } finally {
+      if (apiKey !== undefined) {
+        process.env.MINIMAX_API_KEY = apiKey;
+      }
+    }
+  });
+});
@@ -0,0 +1,61 @@
+import 'dotenv/config';
+import axios from 'axios';
+import fs from 'fs/promises';
+import path from 'path';
+import { FIXTURES_DIR } from './helpers/fixtures';
+
+// Record a live MiniMax image generation response as a test fixture:
+//
+//   npm run test:record -- <name> "<prompt>" [count]
+//
+// Image URLs are rewritten to "{{baseUrl}}/images/<name>-<n>.png" so the
+// mock server can serve them; everything else is kept as MiniMax sent it.
+async function main() {
+  const [name, prompt, count = '1'] = process.argv.slice(2);
+  if (!name || !prompt) {
+    console.error('Usage: npm run test:record -- <name> "<prompt>" [count]');
+    process.exit(1);
+  }
+
+  const apiKey = process.env.MINIMAX_API_KEY;
+  if (!apiKey) {
+    throw new Error('MINIMAX_API_KEY environment variable is required');
+  }
+
+  const response = await axios.post(
+    process.env.MINIMAX_API_URL ?? 'https://api.minimax.io/v1/image_generation',
+    {
+      model: 'image-01',
+      prompt,
+      width: 512,
+      height: 512,
+      response_format: 'url',
+      n: Number(count),
+      prompt_optimizer: true,
+    },
+    {
+      headers: { Authorization: `Bearer ${apiKey}` },
+      // Error responses are recorded too
+      validateStatus: () => true,
+    }
+  );
+
+  const body = response.data;
+  if (Array.isArray(body?.data?.image_urls)) {
+    body.data.image_urls = body.data.image_urls.map(
+      (_url: unknown, index: number) =>
+        `{{baseUrl}}/images/${name}-${index + 1}.png`
+    );
+  }
+
+  const file = path.join(FIXTURES_DIR, 'minimax', `${name}.json`);
+  await fs.writeFile(file, `${JSON.stringify(body, null, 2)}\n`);
+  console.log(
+    `📼 Recorded MiniMax response (HTTP ${response.status}, status code ${body?.base_resp?.status_code}) to ${file}`
+  );
+}
+
+main().catch((error) => {
+  console.error('❌ Recording failed:', error);
+  process.exit(1);
+});
@@ -0,0 +1,488 @@
+import assert from 'node:assert/strict';
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import { after, before, beforeEach, describe, it } from 'node:test';
+import { panelImageUrl, panelVersionImageUrl } from '../src/asset_store';
+import { ComicImageOutput, ComicImagePanel } from '../src/comic_image_node';
+import { INVALID_LANGUAGE_ERROR } from '../src/comic_language';
+import {
+  MAX_PANEL_COUNT,
+  MIN_PANEL_COUNT,
+  createComicLayout,
+} from '../src/comic_layout';
+import { ComicRequest } from '../src/comic_repository';
+import { ComicStoryOutput } from '../src/comic_story_node';
+import { ComicServer } from './helpers/comic_server';
+import { MockMiniMaxServer } from './helpers/mock_minimax_server';
+
+const cast = [
+  { name: 'Mira', description: 'a girl with red pigtails' },
+  { name: 'Bolt', description: 'a small round robot' },
+];
+
+const script: ComicStoryOutput = {
+  title: 'The Last Cookie',
+  artStyle: 'cartoon style',
+  layout: createComicLayout('strip', 2),
+  cast,
+  language: 'en',
+  panels: [
+    {
+      panelNumber: 1,
+      dialogueText: 'Mira: Bolt, did you see the cookie jar?',
+      dialogue: [
+        { speaker: 'Mira', text: 'Bolt, did you see the cookie jar?' },
+      ],
+      captions: ['Saturday morning...'],
+      soundEffects: [],
+      shotType: 'medium',
+      characters: ['Mira', 'Bolt'],
+      visualDescription: 'Mira points at an empty cookie jar, Bolt beside her',
+      speaker: 'Mira',
+    },
+    {
+      panelNumber: 2,
+      dialogueText: 'Bolt: Beep.',
+      dialogue: [{ speaker: 'Bolt', text: 'Beep.' }],
+      captions: [],
+      soundEffects: ['CRUNCH!'],
+      shotType: 'close_up',
+      characters: ['Bolt'],
+      visualDescription: 'Bolt with cookie crumbs spilling from its chest',
+      speaker: 'Bolt',
+    },
+  ],
+};
+
+// A comic whose script was written and is waiting for approval, so it can be
+// rendered without the LLM
+const awaitingApproval: ComicRequest = {
+  id: 'cookie-comic',
+  cast,
+  artStyle: 'cartoon style',
+  panelCount: 2,
+  layout: 'strip',
+  reviewScript: true,
+  status: 'awaiting_approval',
+  script,
+  createdAt: new Date(),
+};
+
+// A finished comic another issue can continue
+const firstIssue: ComicRequest = {
+  id: 'first-issue',
+  cast,
+  artStyle: 'cartoon style',
+  panelCount: 2,
+  layout: 'strip',
+  status: 'completed',
+  script,
+  createdAt: new Date(),
+};
+
+// A comic stored before callback secrets were kept out of the record
+const legacyCallbackComic = {
+  ...firstIssue,
+  id: 'legacy-callback',
+  callback: {
+    url: 'https://hooks.example.com/comics',
+    secret: 'legacy-secret',
+  },
+} as ComicRequest;
+
+describe('comic routes', () => {
+  const minimax = new MockMiniMaxServer();
+  let server: ComicServer;
+
+  before(async () => {
+    await minimax.start();
+    server = await ComicServer.start({
+      minimaxUrl: minimax.url,
+      comics: [awaitingApproval, firstIssue, legacyCallbackComic],
+    });
+  });
+
+  beforeEach(() => minimax.reset());
+
+  after(async () => {
+    await server?.stop();
+    await minimax.stop();
+  });
+
+  async function json<T = Record<string, unknown>>(
+    method: string,
+    pathname: string,
+    body?: unknown
+  ): Promise<{ status: number; body: T }> {
+    const response = await server.request(method, pathname, body);
+    return { status: response.status, body: (await response.json()) as T };
+  }
+
+  async function storedComic(): Promise<ComicImageOutput> {
+    const { body } = await json<{ result: ComicImageOutput }>(
+      'GET',
+      `/api/comic-status/${awaitingApproval.id}`
+    );
+    return body.result;
+  }
+
+  it('reports unknown comics', async () => {
+    assert.deepEqual(await json('GET', '/api/comic-status/no-such-comic'), {
+      status: 404,
+      body: { error: 'Request not found' },
+    });
+  });
+
+  it('validates comic requests before writing a script', async () => {
+    const valid = { characters: cast, artStyle: 'cartoon style' };
+    const cases: [Record<string, unknown>, string][] = [
+      [{ ...valid, artStyle: ' ' }, 'Art style is required'],
+      [{ ...valid, language: 'not a language' }, INVALID_LANGUAGE_ERROR],
+      [
+        { ...valid, panelCount: MAX_PANEL_COUNT + 1 },
+        `Panel count must be an integer between ${MIN_PANEL_COUNT} and ${MAX_PANEL_COUNT}`,
+      ],
+      [{ ...valid, reviewScript: 'yes' }, 'reviewScript must be a boolean'],
+      [
+        { ...valid, callbackUrl: 'https://127.0.0.1/hooks' },
+        'callbackUrl host 127.0.0.1 is not public',
+      ],
+      [
+        { ...valid, image: { candidates: 9 } },
+        'image.candidates must be a whole number between 1 and 4',
+      ],
+    ];
+
+    for (const [body, error] of cases) {
+      assert.deepEqual(await json('POST', '/api/generate-comic', body), {
+        status: 400,
+        body: { error },
+      });
+    }
+  });
+
+  it('renders an approved script with MiniMax', async () => {
+    minimax.reply(
+      { fixture: 'image_generation_success' },
+      { fixture: 'image_generation_success' }
+    );
+
+    assert.deepEqual(
+      await json('POST', `/api/comics/${awaitingApproval.id}/render`, {}),
+      {
+        status: 200,
+        body: {
+          requestId: awaitingApproval.id,
+          status: 'pending',
+          message: 'Comic rendering started',
+        },
+      }
+    );
+
+    const status = await server.waitForComic(awaitingApproval.id);
+    assert.equal(status.status, 'completed', server.log);
+    const comic = status.result as ComicImageOutput;
+    assert.equal(comic.title, 'The Last Cookie');
+    assert.deepEqual(
+      comic.panels.map((panel) => panel.imageUrl),
+      [1, 2].map((n) => panelImageUrl(awaitingApproval.id, n))
+    );
+    assert.ok(comic.page);
+
+    assert.equal(minimax.requests.length, 2);
+    assert.equal(
+      minimax.requests[0].headers.authorization,
+      'Bearer test-minimax-key'
+    );
+
+    for (const pathname of [
+      comic.panels[0].imageUrl,
+      `/api/comics/${awaitingApproval.id}/page.png`,
+    ]) {
+      const response = await server.request('GET', pathname);
+      assert.equal(response.status, 200, pathname);
+      assert.equal(response.headers.get('content-type'), 'image/png');
+    }
+  });
+
+  it('only renders scripts awaiting approval', async () => {
+    assert.deepEqual(
+      await json('POST', `/api/comics/${awaitingApproval.id}/render`, {}),
+      {
+        status: 409,
+        body: { error: 'This comic is not awaiting script approval' },
+      }
+    );
+  });
+
+  it('rejects invalid panel edits', async () => {
+    const { status, body } = await json(
+      'POST',
+      `/api/comics/${awaitingApproval.id}/panels/2/regenerate`,
+      { visualDescription: ' ' }
+    );
+
+    assert.equal(status, 400);
+    assert.equal(body.error, 'visualDescription: must not be empty');
+    assert.equal(minimax.requests.length, 0);
+  });
+
+  it('redraws a panel and keeps the replaced version', async () => {
+    minimax.reply({ fixture: 'image_generation_success' });
+
+    const { status, body } = await json<{ panel: ComicImagePanel }>(
+      'POST',
+      `/api/comics/${awaitingApproval.id}/panels/2/regenerate`,
+      { visualDescription: 'Bolt hides the cookie jar behind its back' }
+    );
+
+    assert.equal(status, 200);
+    assert.equal(body.panel.version, 2);
+    assert.equal(
+      body.panel.visualDescription,
+      'Bolt hides the cookie jar behind its back'
+    );
+    assert.deepEqual(
+      body.panel.previousVersions?.map((version) => version.imageUrl),
+      [panelVersionImageUrl(awaitingApproval.id, 2, 1)]
+    );
+    assert.match(
+      minimax.requests[0].body.prompt as string,
+      /Bolt hides the cookie jar behind its back/
+    );
+
+    const previous = await server.request(
+      'GET',
+      panelVersionImageUrl(awaitingApproval.id, 2, 1)
+    );
+    assert.equal(previous.status, 200);
+  });
+
+  it('reports MiniMax errors when a redraw fails', async () => {
+    minimax.reply(
+      { fixture: 'image_generation_rate_limited' },
+      { fixture: 'image_generation_rate_limited' },
+      { fixture: 'image_generation_sensitive' }
+    );
+
+    assert.deepEqual(
+      await json(
+        'POST',
+        `/api/comics/${awaitingApproval.id}/panels/1/regenerate`,
+        {}
+      ),
+      { status: 502, body: { error: 'Image generation failed for panel 1' } }
+    );
+    assert.equal(minimax.requests.length, 3);
+
+    // The comic keeps the panel it had
+    const [panel] = (await storedComic()).panels;
+    assert.equal(panel.version, undefined);
+    assert.equal(panel.imageUrl, panelImageUrl(awaitingApproval.id, 1));
+  });
+
+  it('validates candidate selections', async () => {
+    const select = (candidate: unknown) =>
+      json('POST', `/api/comics/${awaitingApproval.id}/panels/1/select`, {
+        candidate,
+      });
+
+    assert.deepEqual(await select('first'), {
+      status: 400,
+      body: { error: 'candidate must be a candidate number' },
+    });
+    assert.deepEqual(await select(2), {
+      status: 404,
+      body: { error: 'Panel 1 has only one image' },
+    });
+  });
+
+  it('refuses reference images from this network', async () => {
+    assert.deepEqual(
+      await json('POST', '/api/characters', {
+        name: 'Whiskers',
+        appearance: 'orange tabby cat',
+        referenceImage: 'https://169.254.169.254/latest/meta-data/',
+      }),
+      {
+        status: 400,
+        body: {
+          error:
+            'Reference image was refused: URL host 169.254.169.254 is not public',
+        },
+      }
+    );
+  });
+
+  it('exports the finished comic', async () => {
+    const html = await server.request(
+      'GET',
+      `/api/comics/${awaitingApproval.id}/export?format=html`
+    );
+    assert.equal(html.status, 200);
+    assert.match(html.headers.get('content-type') ?? '', /^text\/html/);
+    assert.match(await html.text(), /The Last Cookie/);
+
+    const pdf = await server.request(
+      'GET',
+      `/api/comics/${awaitingApproval.id}/export?format=pdf`
+    );
+    assert.equal(pdf.status, 200);
+    assert.equal(
+      Buffer.from(await pdf.arrayBuffer())
+        .subarray(0, 5)
+        .toString(),
+      '%PDF-'
+    );
+
+    assert.deepEqual(
+      await json('GET', `/api/comics/${awaitingApproval.id}/export?format=gif`),
+      { status: 400, body: { error: 'Format must be one of: pdf, cbz, html' } }
+    );
+  });
+
+  it('continues a series one issue at a time', async () => {
+    const continuations = await Promise.all(
+      [1, 2].map(() =>
+        json<{ requestId?: string; error?: string }>(
+          'POST',
+          '/api/generate-comic',
+          { previousRequestId: firstIssue.id }
+        )
+      )
+    );
+
+    assert.deepEqual(
+      continuations.map(({ status }) => status).sort(),
+      [200, 409]
+    );
+    const created = continuations.find(({ status }) => status === 200)!;
+    const { body } = await json<{ seriesId: string; issueNumber: number }>(
+      'GET',
+      `/api/comic-status/${created.body.requestId}`
+    );
+    assert.equal(body.seriesId, firstIssue.id);
+    assert.equal(body.issueNumber, 2);
+  });
+
+  it('keeps callback secrets out of the stored comic', async () => {
+    const { status, body } = await json<{ requestId: string }>(
+      'POST',
+      '/api/generate-comic',
+      {
+        characters: cast,
+        artStyle: 'cartoon style',
+        callbackUrl: 'https://hooks.example.com/comics',
+        callbackSecret: 'webhook-secret',
+      }
+    );
+    assert.equal(status, 200, server.log);
+
+    const stored = await fs.readFile(
+      path.join(server.dataDir, 'comics', `${body.requestId}.json`),
+      'utf8'
+    );
+    assert.doesNotMatch(stored, /webhook-secret/);
+    assert.deepEqual(JSON.parse(stored).callback, {
+      url: 'https://hooks.example.com/comics',
+      hasSecret: true,
+    });
+  });
+
+  it('takes callback secrets out of comics stored before', async () => {
+    const stored = await fs.readFile(
+      path.join(server.dataDir, 'comics', `${legacyCallbackComic.id}.json`),
+      'utf8'
+    );
+    assert.doesNotMatch(stored, /legacy-secret/);
+  });
+
+  it('does not translate a comic into its own language', async () => {
+    assert.deepEqual(
+      await json('POST', `/api/comics/${awaitingApproval.id}/translate`, {
+        language: 'en',
+      }),
+      { status: 400, body: { error: 'This comic is already in English' } }
+    );
+  });
+});
+
+describe('API keys', () => {
+  const minimax = new MockMiniMaxServer();
+  let server: ComicServer;
+
+  before(async () => {
+    await minimax.start();
+    server = await ComicServer.start({
+      minimaxUrl: minimax.url,
+      comics: [awaitingApproval],
+      env: { COMIC_API_KEYS: 'alice:alice-key' },
+    });
+  });
+
+  after(async () => {
+    await server?.stop();
+    await minimax.stop();
+  });
+
+  it('serves images without a key', async () => {
+    for (const pathname of [
+      panelImageUrl(awaitingApproval.id, 1),
+      `/api/comics/${awaitingApproval.id}/page.png`,
+      '/api/characters/no-such-character/reference.png',
+    ]) {
+      const response = await server.request('GET', pathname);
+      assert.equal(response.status, 404, pathname);
+    }
+  });
+
+  it('requires a key for everything else ending in .png', async () => {
+    for (const pathname of [
+      `/api/comic-status/${awaitingApproval.id}.png`,
+      `/api/comics/${awaitingApproval.id}/export.png`,
+      '/api/comics.png',
+    ]) {
+      const response = await server.request('GET', pathname);
+      assert.equal(response.status, 401, pathname);
+    }
+  });
+});
+
+describe('daily quota', () => {
+  const minimax = new MockMiniMaxServer();
+  let server: ComicServer;
+
+  before(async () => {
+    await minimax.start();
+    server = await ComicServer.start({
+      minimaxUrl: minimax.url,
+      env: { DAILY_COMIC_QUOTA: '1' },
+    });
+  });
+
+  after(async () => {
+    await server?.stop();
+    await minimax.stop();
+  });
+
+  it('is not given back when a comic is deleted', async () => {
+    const generate = () =>
+      server.request('POST', '/api/generate-comic', {
+        characters: cast,
+        artStyle: 'cartoon style',
+      });
+
+    const started = await generate();
+    assert.equal(started.status, 200, server.log);
+    const { requestId } = (await started.json()) as { requestId: string };
+
+    const deleted = await server.request('DELETE', `/api/comics/${requestId}`);
+    assert.equal(deleted.status, 200);
+
+    const again = await generate();
+    assert.equal(again.status, 429);
+    assert.deepEqual(await again.json(), {
+      error: 'Daily limit of 1 comics reached, please try again tomorrow',
+    });
+  });
+});
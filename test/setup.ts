@@ -0,0 +1,4 @@
+// Loaded before every test file (see the test script in package.json).
+// The test runner reads test results from stdout, and the progress logs of
+// the code under test can corrupt them, so they are written to stderr.
+console.log = console.error;
@@ -0,0 +1,146 @@
+import assert from 'node:assert/strict';
+import http from 'node:http';
+import net from 'node:net';
+import { after, before, describe, it } from 'node:test';
+import { fetchImage } from '../src/image_fetch';
+import {
+  UnsafeUrlError,
+  assertPublicUrl,
+  isPrivateAddress,
+  lookupPublicAddress,
+} from '../src/url_safety';
+
+describe('isPrivateAddress', () => {
+  it('recognizes loopback, private and link-local addresses', () => {
+    for (const address of [
+      '127.0.0.1',
+      '10.1.2.3',
+      '172.16.0.1',
+      '192.168.1.1',
+      '169.254.169.254',
+      '100.64.0.1',
+      '0.0.0.0',
+      '::',
+      '::1',
+      'fd00::1',
+      'fe80::1',
+      '::ffff:127.0.0.1',
+    ]) {
+      assert.ok(isPrivateAddress(address), address);
+    }
+  });
+
+  it('lets public addresses through', () => {
+    for (const address of ['8.8.8.8', '2606:4700::1111', '::ffff:1.1.1.1']) {
+      assert.ok(!isPrivateAddress(address), address);
+    }
+  });
+});
+
+describe('assertPublicUrl', () => {
+  it('accepts https: URLs of public hosts', () => {
+    assert.equal(
+      assertPublicUrl('https://example.com/cat.png').hostname,
+      'example.com'
+    );
+  });
+
+  it('refuses other schemes and private hosts', () => {
+    for (const [url, message] of [
+      ['http://example.com/cat.png', 'URL must be an https: URL'],
+      ['file:///etc/passwd', 'URL must be an https: URL'],
+      ['not a url', 'URL is not valid'],
+      ['https://localhost/cat.png', 'URL host localhost is not public'],
+      ['https://api.localhost/cat.png', 'URL host api.localhost is not public'],
+      ['https://127.0.0.1:3000/', 'URL host 127.0.0.1 is not public'],
+      ['https://[::1]/', 'URL host [::1] is not public'],
+      [
+        'https://169.254.169.254/latest/meta-data/',
+        'URL host 169.254.169.254 is not public',
+      ],
+      ['https://[::ffff:10.0.0.1]/', 'URL host [::ffff:a00:1] is not public'],
+    ]) {
+      assert.throws(
+        () => assertPublicUrl(url),
+        (error: unknown) =>
+          error instanceof UnsafeUrlError && error.message === message,
+        url
+      );
+    }
+  });
+});
+
+describe('lookupPublicAddress', () => {
+  it('refuses names that resolve to private addresses', async () => {
+    await assert.rejects(
+      lookupPublicAddress('localhost'),
+      (error: unknown) =>
+        error instanceof UnsafeUrlError &&
+        /^localhost resolves to .*, which is not public$/.test(error.message)
+    );
+  });
+});
+
+describe('fetchImage', () => {
+  let server: http.Server;
+  let baseUrl: string;
+
+  before(async () => {
+    server = http.createServer((req, res) => {
+      if (req.url === '/huge.png') {
+        // Claims more than the limit; nothing past the headers is read
+        res.writeHead(200, {
+          'Content-Type': 'image/png',
+          'Content-Length': String(100 * 1024 * 1024),
+        });
+        res.write(Buffer.alloc(16));
+        return;
+      }
+      res.writeHead(200, { 'Content-Type': 'image/png' });
+      res.end(Buffer.from('png bytes'));
+    });
+    await new Promise<void>((resolve) =>
+      server.listen(0, '127.0.0.1', () => resolve())
+    );
+    baseUrl = `http://127.0.0.1:${(server.address() as net.AddressInfo).port}`;
+  });
+
+  after(async () => {
+    server.closeAllConnections();
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  it('loads images from image providers', async () => {
+    assert.deepEqual(await fetchImage(`${baseUrl}/cat.png`), {
+      data: Buffer.from('png bytes'),
+      contentType: 'image/png',
+    });
+  });
+
+  it('refuses images larger than the limit', async () => {
+    await assert.rejects(fetchImage(`${baseUrl}/huge.png`), {
+      message: `Image is larger than ${20 * 1024 * 1024} bytes`,
+    });
+  });
+
+  it('refuses URLs from users that point at this network', async () => {
+    for (const url of [
+      `${baseUrl}/cat.png`,
+      baseUrl.replace('http:', 'https:'),
+      'https://localhost/cat.png',
+    ]) {
+      await assert.rejects(
+        fetchImage(url, { untrusted: true }),
+        UnsafeUrlError,
+        url
+      );
+    }
+  });
+
+  it('reads data: URLs without a request', async () => {
+    assert.deepEqual(
+      await fetchImage('data:image/png;base64,cG5n', { untrusted: true }),
+      { data: Buffer.from('png'), contentType: 'image/png' }
+    );
+  });
+});